@@ -0,0 +1,14 @@
+// Encodes text as unpadded base64url, as used in JWTs and page tokens. The binary string is built a character at a time
+// because spreading the bytes into String.fromCharCode() overflows the stack for large values.
+export function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+// Decodes base64url, padded or not, back into text. Throws on invalid base64.
+export function decodeBase64Url(base64url: string): string {
+  const binary = atob(base64url.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { AggregateField, average, count, sum } from './aggregate';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const readTime = '2024-05-01T12:00:00Z';
+let requests: Array<{ url: URL, body: any }>;
+let responses: any[];
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    requests.push({ url: new URL(input), body: JSON.parse(init.body as string) });
+    return new Response(JSON.stringify(responses.shift()));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+
+describe('AggregateQuery', () => {
+  it('counts the documents matching a query', async () => {
+    responses.push([{ result: { aggregateFields: { count: { integerValue: '3' } } }, readTime }]);
+    const snapshot = await firestore.collection('users').where('age', '>', 30).count().get();
+
+    expect(snapshot.data()).toEqual({ count: 3 });
+    expect(snapshot.readTime).toEqual(new Date(readTime));
+    const [ { url, body } ] = requests;
+    expect(url.pathname).toMatch(/\/documents:runAggregationQuery$/);
+    expect(body.structuredAggregationQuery.aggregations).toEqual([{ alias: 'count', count: {} }]);
+    expect(body.structuredAggregationQuery.structuredQuery.where.fieldFilter.field).toEqual({ fieldPath: 'age' });
+  });
+
+  it('sends each aggregation with its alias', async () => {
+    responses.push([{
+      result: { aggregateFields: { total: { integerValue: '12' }, mean: { doubleValue: 4.5 }, n: { integerValue: '2' } } },
+      readTime,
+    }]);
+    const snapshot = await firestore.collection('orders').aggregate({
+      total: sum('amount'),
+      mean: average('amount'),
+      n: count(),
+    }).get();
+
+    expect(snapshot.data()).toEqual({ total: 12, mean: 4.5, n: 2 });
+    expect(requests[0].body.structuredAggregationQuery.aggregations).toEqual([
+      { alias: 'total', sum: { field: { fieldPath: 'amount' } } },
+      { alias: 'mean', avg: { field: { fieldPath: 'amount' } } },
+      { alias: 'n', count: {} },
+    ]);
+  });
+
+  it('returns null for an average without any numeric values', async () => {
+    responses.push([{ result: { aggregateFields: { mean: { nullValue: null } } }, readTime }]);
+    const snapshot = await firestore.collection('orders').aggregate({ mean: AggregateField.average('amount') }).get();
+    expect(snapshot.data()).toEqual({ mean: null });
+  });
+
+  it('queries subcollections under their parent document', async () => {
+    responses.push([{ result: { aggregateFields: { count: { integerValue: '0' } } }, readTime }]);
+    await firestore.collection('users/ada/posts').count().get();
+    expect(requests[0].url.pathname).toMatch(/\/documents\/users\/ada:runAggregationQuery$/);
+  });
+
+  it('rejects with the error returned in the response', async () => {
+    responses.push([{ error: { code: 400, message: 'Invalid aggregation', status: 'INVALID_ARGUMENT' } }]);
+    await expect(firestore.collection('orders').count().get()).rejects.toThrow('Invalid aggregation');
+  });
+});
@@ -0,0 +1,124 @@
+import { StatusError } from '../status-error';
+import { decodeExplainMetrics } from './explain';
+import { encodeFieldPath, FieldPath } from './field-path';
+import { queryError } from './query-error';
+import type { Query } from './reference';
+import { decodeValue, encodeConsistency } from './serializer';
+import { dataSymbol, structuredQuerySymbol } from './symbols';
+import type {
+  AggregateSpec, AggregateSpecData, ConsistencyOptions, DocumentData, ExplainOptions, ExplainResults, ReadTimeOptions,
+  api
+} from './types';
+
+export type AggregateType = 'count' | 'sum' | 'avg';
+
+
+/**
+ * An aggregation to be calculated by the server over the result set of a query.
+ */
+export class AggregateField<T> {
+  /**
+   * Counts the documents in the result set.
+   */
+  static count(): AggregateField<number> {
+    return new AggregateField('count');
+  }
+
+  /**
+   * Sums the values of the given field across the result set. Non-numeric values are ignored.
+   */
+  static sum(field: string | FieldPath): AggregateField<number> {
+    return new AggregateField('sum', encodeFieldPath(field));
+  }
+
+  /**
+   * Averages the values of the given field across the result set. Non-numeric values are ignored and the result is
+   * null when there are no numeric values.
+   */
+  static average(field: string | FieldPath): AggregateField<number | null> {
+    return new AggregateField('avg', encodeFieldPath(field));
+  }
+
+  // Used only to carry the result type
+  declare private readonly _type?: T;
+
+  constructor(readonly aggregateType: AggregateType, readonly field?: string) {}
+
+  encode(alias: string): api.Aggregation {
+    const aggregation: api.Aggregation = { alias };
+    if (this.aggregateType === 'count') aggregation.count = {};
+    else aggregation[this.aggregateType] = { field: { fieldPath: this.field } };
+    return aggregation;
+  }
+}
+
+export function count() {
+  return AggregateField.count();
+}
+
+export function sum(field: string | FieldPath) {
+  return AggregateField.sum(field);
+}
+
+export function average(field: string | FieldPath) {
+  return AggregateField.average(field);
+}
+
+
+export class AggregateQuerySnapshot<A extends AggregateSpec, T = DocumentData> {
+
+  private [dataSymbol]: AggregateSpecData<A>;
+
+  constructor(readonly query: AggregateQuery<A, T>, readonly readTime: Date, data: AggregateSpecData<A>) {
+    this[dataSymbol] = data;
+  }
+
+  data(): AggregateSpecData<A> {
+    return { ...this[dataSymbol] };
+  }
+}
+
+
+export class AggregateQuery<A extends AggregateSpec, T = DocumentData> {
+
+  constructor(readonly query: Query<T>, readonly aggregateSpec: A) {}
+
+  async get(consistency?: ConsistencyOptions | ReadTimeOptions): Promise<AggregateQuerySnapshot<A, T>> {
+    return this.createSnapshot(await this.runQuery(encodeConsistency(consistency)));
+  }
+
+  /**
+   * Returns how the server plans to run this aggregation. With `analyze` it is also run, returning its result along
+   * with execution stats.
+   */
+  async explain(options: ExplainOptions = {}): Promise<ExplainResults<AggregateQuerySnapshot<A, T>>> {
+    const response = await this.runQuery({ explainOptions: { analyze: !!options.analyze } });
+    const metrics = decodeExplainMetrics(response.find(e => e.explainMetrics)?.explainMetrics);
+    return { metrics, snapshot: options.analyze ? this.createSnapshot(response) : null };
+  }
+
+  private async runQuery(request: object): Promise<api.RunAggregationQueryResponse[]> {
+    const structuredAggregationQuery: api.StructuredAggregationQuery = {
+      structuredQuery: this.query[structuredQuerySymbol](),
+      aggregations: Object.entries(this.aggregateSpec).map(([ alias, field ]) => field.encode(alias)),
+    };
+    const response = await this.query.ref.firestore.request<api.RunAggregationQueryResponse[]>(
+      'POST',
+      `${this.query.ref.parent.path}:runAggregationQuery`,
+      { structuredAggregationQuery, ...request }
+    ).catch(err => { throw err instanceof StatusError ? queryError(err) : err; });
+    if (response[0]?.error) throw queryError(response[0].error);
+    return response;
+  }
+
+  private createSnapshot(response: api.RunAggregationQueryResponse[]): AggregateQuerySnapshot<A, T> {
+    const firestore = this.query.ref.firestore;
+    const result = response.find(e => e.result);
+    const data = {} as AggregateSpecData<A>;
+    for (const alias of Object.keys(this.aggregateSpec) as Array<keyof A & string>) {
+      const value = result?.result.aggregateFields[alias];
+      data[alias] = value ? decodeValue(firestore, value) : null;
+    }
+    return new AggregateQuerySnapshot(this, new Date(result?.readTime || response[0].readTime), data);
+  }
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { BulkWriterError } from './bulk-writer';
+import type { api } from './types';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const updateTime = '2024-05-01T12:00:00Z';
+let requests: api.BatchWriteRequest[];
+let respond: (request: api.BatchWriteRequest) => Promise<object> | object;
+
+beforeEach(() => {
+  requests = [];
+  respond = succeed;
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const request = JSON.parse(init.body as string);
+    requests.push(request);
+    return new Response(JSON.stringify(await respond(request)));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function succeed(request: api.BatchWriteRequest): api.BatchWriteResponse {
+  return {
+    writeResults: request.writes.map(() => ({ updateTime })),
+    status: request.writes.map(() => ({ code: 0, message: '' })),
+  };
+}
+
+// Fails the writes to documents matching the test with the given status code
+function failWrites(test: (name: string) => boolean, code: number) {
+  return (request: api.BatchWriteRequest): api.BatchWriteResponse => {
+    const failed = request.writes.map(write => test(write.update?.name || write.delete));
+    return {
+      writeResults: failed.map(failed => failed ? {} : { updateTime }),
+      status: failed.map(failed => failed ? { code, message: 'Write failed' } : { code: 0, message: '' }),
+    };
+  };
+}
+
+
+describe('BulkWriter', () => {
+  it('sends writes in batches of at most 500', async () => {
+    const bulkWriter = firestore.bulkWriter();
+    for (let i = 0; i < 1203; i++) bulkWriter.set(firestore.doc(`items/${i}`), { i });
+    await bulkWriter.close();
+    expect(requests.map(request => request.writes.length)).toEqual([ 500, 500, 203 ]);
+  });
+
+  it('sends full batches before flush() is called', async () => {
+    const bulkWriter = firestore.bulkWriter({ batchSize: 2 });
+    const writes = [ 1, 2, 3 ].map(i => bulkWriter.set(firestore.doc(`items/${i}`), { i }));
+    await Promise.all(writes.slice(0, 2));
+    expect(requests).toHaveLength(1);
+    await bulkWriter.flush();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('limits the number of requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    respond = async request => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return succeed(request);
+    };
+    const bulkWriter = firestore.bulkWriter({ batchSize: 10, maxConcurrency: 2 });
+    for (let i = 0; i < 100; i++) bulkWriter.set(firestore.doc(`items/${i}`), { i });
+    await bulkWriter.close();
+    expect(requests).toHaveLength(10);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('puts writes to the same document in separate batches', async () => {
+    const bulkWriter = firestore.bulkWriter();
+    const ref = firestore.doc('items/1');
+    bulkWriter.set(ref, { n: 1 });
+    bulkWriter.update(ref, { n: 2 });
+    bulkWriter.set(firestore.doc('items/2'), { n: 1 });
+    await bulkWriter.close();
+    expect(requests.map(request => request.writes.length)).toEqual([ 2, 1 ]);
+  });
+
+  it('resolves each write with its update time', async () => {
+    const bulkWriter = firestore.bulkWriter();
+    const write = bulkWriter.create(firestore.doc('items/1'), { n: 1 });
+    await bulkWriter.close();
+    expect(await write).toEqual(new Date(updateTime));
+  });
+
+  it('retries only the writes which failed with a retryable error', async () => {
+    let failures = 1;
+    respond = failWrites(name => name.endsWith('/items/2') && failures-- > 0, 10);
+    const bulkWriter = firestore.bulkWriter();
+    const writes = [ 1, 2, 3 ].map(i => bulkWriter.set(firestore.doc(`items/${i}`), { i }));
+    await bulkWriter.close();
+
+    await expect(Promise.all(writes)).resolves.toHaveLength(3);
+    expect(requests.map(request => request.writes.length)).toEqual([ 3, 1 ]);
+    expect(requests[1].writes[0].update.name).toMatch(/\/items\/2$/);
+  });
+
+  it('rejects writes which fail with an error which is not retryable', async () => {
+    respond = failWrites(name => name.endsWith('/items/2'), 6);
+    const bulkWriter = firestore.bulkWriter();
+    const ok = bulkWriter.create(firestore.doc('items/1'), { n: 1 });
+    const failed = bulkWriter.create(firestore.doc('items/2'), { n: 2 });
+    await bulkWriter.close();
+
+    await expect(ok).resolves.toBeInstanceOf(Date);
+    const error = await failed.catch(error => error);
+    expect(error).toBeInstanceOf(BulkWriterError);
+    expect(error).toMatchObject({ status: 'ALREADY_EXISTS', operation: 'create', failedAttempts: 1 });
+    expect(error.ref.path).toBe('items/2');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up on a retryable error after maxAttempts', async () => {
+    respond = failWrites(() => true, 14);
+    const bulkWriter = firestore.bulkWriter({ maxAttempts: 2 });
+    const write = bulkWriter.set(firestore.doc('items/1'), { n: 1 });
+    await bulkWriter.close();
+    await expect(write).rejects.toMatchObject({ status: 'UNAVAILABLE', failedAttempts: 2 });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('retries every write in a request which failed', async () => {
+    let failures = 1;
+    respond = request => failures-- > 0
+      ? { error: { code: 503, message: 'Service unavailable', status: 'UNAVAILABLE' } }
+      : succeed(request);
+    const bulkWriter = firestore.bulkWriter();
+    const writes = [ 1, 2 ].map(i => bulkWriter.set(firestore.doc(`items/${i}`), { i }));
+    await bulkWriter.close();
+    await expect(Promise.all(writes)).resolves.toHaveLength(2);
+  });
+
+  it('resends a failed request as one batch after a single backoff', async () => {
+    let failures = 2;
+    respond = request => failures-- > 0
+      ? { error: { code: 503, message: 'Service unavailable', status: 'UNAVAILABLE' } }
+      : succeed(request);
+    const bulkWriter = firestore.bulkWriter();
+    for (let i = 0; i < 1203; i++) bulkWriter.set(firestore.doc(`items/${i}`), { i });
+    await bulkWriter.close();
+    expect(requests).toHaveLength(5);
+    expect(requests.slice(3).map(request => request.writes.length)).toEqual([ 500, 500 ]);
+  });
+
+  it('sends the failed writes of a batch together when retrying them', async () => {
+    const failed = new Set<string>();
+    respond = failWrites(name => !failed.has(name) && !!failed.add(name), 10);
+    const bulkWriter = firestore.bulkWriter();
+    for (let i = 0; i < 1203; i++) bulkWriter.set(firestore.doc(`items/${i}`), { i });
+    await bulkWriter.close();
+    const sizes = requests.map(request => request.writes.length);
+    expect(sizes.slice(0, 3)).toEqual([ 500, 500, 203 ]);
+    // Retried batches finish backing off in any order
+    expect(sizes.slice(3).sort()).toEqual([ 203, 500, 500 ]);
+  });
+
+  it('calls onWriteResult for each successful write', async () => {
+    const results: string[] = [];
+    const bulkWriter = firestore.bulkWriter();
+    bulkWriter.onWriteResult((ref, time) => results.push(`${ref.path} ${time.toISOString()}`));
+    bulkWriter.set(firestore.doc('items/1'), { n: 1 });
+    bulkWriter.delete(firestore.doc('items/2'));
+    await bulkWriter.close();
+    expect(results.sort()).toEqual([ 'items/1 2024-05-01T12:00:00.000Z', 'items/2 2024-05-01T12:00:00.000Z' ]);
+  });
+
+  it('retries writes for which onWriteError returns true', async () => {
+    respond = failWrites(() => true, 6);
+    const errors: BulkWriterError[] = [];
+    const bulkWriter = firestore.bulkWriter();
+    bulkWriter.onWriteError(error => {
+      errors.push(error);
+      return error.failedAttempts < 3;
+    });
+    const write = bulkWriter.create(firestore.doc('items/1'), { n: 1 });
+    await bulkWriter.close();
+
+    await expect(write).rejects.toMatchObject({ status: 'ALREADY_EXISTS', failedAttempts: 3 });
+    expect(errors.map(error => error.failedAttempts)).toEqual([ 1, 2, 3 ]);
+  });
+
+  it('rejects the write with an error thrown by a callback', async () => {
+    const bulkWriter = firestore.bulkWriter();
+    bulkWriter.onWriteResult(() => {
+      throw new Error('Callback failed');
+    });
+    const write = bulkWriter.set(firestore.doc('items/1'), { n: 1 });
+    await bulkWriter.close();
+    await expect(write).rejects.toThrow('Callback failed');
+  });
+
+  it('rejects writes after it has been closed', async () => {
+    const bulkWriter = firestore.bulkWriter();
+    await bulkWriter.close();
+    expect(() => bulkWriter.set(firestore.doc('items/1'), { n: 1 })).toThrow('BulkWriter has already been closed.');
+  });
+});
@@ -0,0 +1,229 @@
+import { StatusError } from '../status-error';
+import type { Firestore } from './firestore';
+import type { DocumentReference } from './reference';
+import { backoff, isRetryableError, statusNames } from './retry';
+import { cacheSymbol, enqueueSymbol, queueSymbol, writesSymbol } from './symbols';
+import type {
+  BulkWriterOptions, DocumentData, PartialWithFieldValue, Precondition, SetOptions, UpdateData, WithFieldValue, api
+} from './types';
+import { WriteBatch } from './write-batch';
+
+// Firestore rejects a batchWrite with more than 500 writes
+const maxBatchSize = 500;
+
+export type BulkWriterOperation = 'create' | 'set' | 'update' | 'delete';
+
+interface BulkWrite {
+  ref: DocumentReference<any>;
+  operation: BulkWriterOperation;
+  write: api.Write;
+  failedAttempts: number;
+  resolve: (updateTime: Date) => void;
+  reject: (error: BulkWriterError) => void;
+}
+
+
+/**
+ * The error a BulkWriter write is rejected with, and which is passed to the `onWriteError()` callback.
+ */
+export class BulkWriterError extends StatusError {
+
+  constructor(
+    code: number,
+    message: string,
+    status: string,
+    readonly ref: DocumentReference<any>,
+    readonly operation: BulkWriterOperation,
+    readonly failedAttempts: number,
+  ) {
+    super(code, message, status);
+  }
+}
+
+
+/**
+ * Writes a large number of documents, split into `:batchWrite` requests of up to 500 writes with a limited number of
+ * requests in flight at once. Unlike a WriteBatch the writes are not atomic: each write succeeds or fails on its own,
+ * and only the failed writes are retried. Writes are sent as batches fill up, call `flush()` or `close()` to send the
+ * rest. The order of writes to the same document is not guaranteed when they end up in different batches.
+ */
+export class BulkWriter {
+  private [queueSymbol]: BulkWrite[] = [];
+  private pending = new Set<Promise<unknown>>();
+  private inFlight = 0;
+  private flushing = 0;
+  private closed = false;
+  private batchSize: number;
+  private maxConcurrency: number;
+  private maxAttempts: number;
+  private resultCallback: (ref: DocumentReference<any>, updateTime: Date) => void;
+  private errorCallback: (error: BulkWriterError) => boolean;
+
+  constructor(readonly firestore: Firestore, options: BulkWriterOptions = {}) {
+    this.batchSize = Math.min(options.batchSize || maxBatchSize, maxBatchSize);
+    this.maxConcurrency = options.maxConcurrency || 5;
+    this.maxAttempts = options.maxAttempts || 10;
+  }
+
+  create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): Promise<Date> {
+    return this.enqueue(ref, 'create', batch => batch.create(ref, data));
+  }
+
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options: SetOptions): Promise<Date>;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): Promise<Date>;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): Promise<Date> {
+    return this.enqueue(ref, 'set', batch => batch.set(ref, data, options));
+  }
+
+  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): Promise<Date> {
+    return this.enqueue(ref, 'update', batch => batch.update(ref, data, precondition));
+  }
+
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): Promise<Date> {
+    return this.enqueue(ref, 'delete', batch => batch.delete(ref, precondition));
+  }
+
+  /**
+   * Called with the update time of every write which succeeds.
+   */
+  onWriteResult(callback: (ref: DocumentReference<any>, updateTime: Date) => void): void {
+    this.resultCallback = callback;
+  }
+
+  /**
+   * Called for every failed write attempt. Return true to retry the write. By default writes are retried up to
+   * `maxAttempts` times when their error is retryable, e.g. ABORTED or UNAVAILABLE.
+   */
+  onWriteError(shouldRetryCallback: (error: BulkWriterError) => boolean): void {
+    this.errorCallback = shouldRetryCallback;
+  }
+
+  /**
+   * Sends all queued writes and resolves once every write made so far has succeeded or failed, including retries.
+   */
+  async flush(): Promise<void> {
+    this.flushing++;
+    try {
+      while (this.pending.size) {
+        this.send();
+        await Promise.allSettled(Array.from(this.pending));
+      }
+    } finally {
+      this.flushing--;
+    }
+  }
+
+  /**
+   * Flushes all writes and prevents any more from being added.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+  }
+
+  // Queues a write which is already encoded, e.g. an imported document whose values must be written exactly as exported
+  [enqueueSymbol](ref: DocumentReference<any>, operation: BulkWriterOperation, write: api.Write): Promise<Date> {
+    if (this.closed) throw new Error('BulkWriter has already been closed.');
+    const promise = new Promise<Date>((resolve, reject) => {
+      this[queueSymbol].push({ ref, operation, write, failedAttempts: 0, resolve, reject });
+    });
+    const settled = promise.catch(() => {}).then(() => this.pending.delete(settled));
+    this.pending.add(settled);
+    this.send();
+    return promise;
+  }
+
+  private enqueue(ref: DocumentReference<any>, operation: BulkWriterOperation, build: (batch: WriteBatch) => void) {
+    if (this.closed) throw new Error('BulkWriter has already been closed.');
+    const batch = new WriteBatch(this.firestore);
+    build(batch);
+    const [ write ] = batch[writesSymbol];
+    // An update with no changes doesn't need to be sent
+    if (!write) return Promise.resolve<Date>(undefined);
+    return this[enqueueSymbol](ref, operation, write);
+  }
+
+  // Sends full batches while there is capacity. Partial batches are sent when flushing, or when they contain retries
+  // so those don't wait on writes which may never come.
+  private send() {
+    const queue = this[queueSymbol];
+    while (this.inFlight < this.maxConcurrency && queue.length && (
+      queue.length >= this.batchSize || this.flushing || queue.some(bulkWrite => bulkWrite.failedAttempts)
+    )) {
+      this.sendBatch(this.takeBatch());
+    }
+  }
+
+  // A batchWrite may not contain more than one write to the same document
+  private takeBatch() {
+    const queue = this[queueSymbol];
+    const paths = new Set<string>();
+    const batch: BulkWrite[] = [];
+    for (let i = 0; i < queue.length && batch.length < this.batchSize; i++) {
+      const path = queue[i].ref.qualifiedPath;
+      if (paths.has(path)) continue;
+      paths.add(path);
+      batch.push(queue[i]);
+      queue.splice(i--, 1);
+    }
+    return batch;
+  }
+
+  private async sendBatch(batch: BulkWrite[]) {
+    this.inFlight++;
+    let response: api.BatchWriteResponse;
+    let requestError: StatusError;
+    try {
+      const request: api.BatchWriteRequest = { writes: batch.map(bulkWrite => bulkWrite.write) };
+      response = await this.firestore.request<api.BatchWriteResponse>('POST', ':batchWrite', request);
+      await this.firestore[cacheSymbol]?.invalidate(request.writes);
+    } catch (err) {
+      requestError = err instanceof StatusError ? err : new StatusError(500, err.message, 'UNKNOWN');
+    }
+    this.inFlight--;
+
+    const retries = batch.filter((bulkWrite, i) => {
+      const status = response?.status?.[i];
+      if (!requestError && !status?.code) {
+        const updateTime = response.writeResults[i]?.updateTime;
+        this.succeed(bulkWrite, updateTime && new Date(updateTime) || undefined);
+        return false;
+      }
+      const { code, message } = requestError || status;
+      return this.fail(bulkWrite, code, message, requestError ? requestError.status : statusNames[code]);
+    });
+    this.send();
+    if (!retries.length) return;
+
+    // The batch backs off once and its retries are queued together, so they go out as one request rather than one each
+    await backoff(Math.max(...retries.map(bulkWrite => bulkWrite.failedAttempts)));
+    this[queueSymbol].push(...retries);
+    this.send();
+  }
+
+  private succeed(bulkWrite: BulkWrite, updateTime: Date) {
+    try {
+      this.resultCallback?.(bulkWrite.ref, updateTime);
+      bulkWrite.resolve(updateTime);
+    } catch (err) {
+      bulkWrite.reject(err);
+    }
+  }
+
+  // Rejects the write unless it should be retried, returning whether it should
+  private fail(bulkWrite: BulkWrite, code: number, message: string, status: string): boolean {
+    const { ref, operation } = bulkWrite;
+    const error = new BulkWriterError(code, message, status, ref, operation, ++bulkWrite.failedAttempts);
+    let retry: boolean;
+    try {
+      retry = this.errorCallback
+        ? this.errorCallback(error)
+        : isRetryableError(error) && error.failedAttempts < this.maxAttempts;
+    } catch (err) {
+      bulkWrite.reject(err);
+      return false;
+    }
+    if (!retry) bulkWrite.reject(error);
+    return !!retry;
+  }
+}
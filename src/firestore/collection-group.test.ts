@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { structuredQuerySymbol } from './symbols';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const readTime = '2024-05-01T12:00:00Z';
+let requests: Array<{ url: URL, body: any }>;
+let responses: any[];
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    requests.push({ url: new URL(input), body: JSON.parse(init.body as string) });
+    return new Response(JSON.stringify(responses.shift()));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function document(path: string, text: string) {
+  return { name: `${basePath}/${path}`, fields: { text: { stringValue: text } }, createTime: readTime, updateTime: readTime };
+}
+
+
+describe('collectionGroup', () => {
+  it('queries every collection with the id from the root of the database', async () => {
+    responses.push([
+      { document: document('posts/a/comments/1', 'First'), readTime },
+      { document: document('users/ada/posts/b/comments/2', 'Second'), readTime },
+    ]);
+    const snapshot = await firestore.collectionGroup('comments').where('text', '!=', '').get();
+
+    const [ { url, body } ] = requests;
+    expect(url.pathname).toBe(`/v1/${basePath}:runQuery`);
+    expect(body.structuredQuery.from).toEqual([{ collectionId: 'comments', allDescendants: true }]);
+    expect(snapshot.docs.map(doc => doc.ref.path)).toEqual([ 'posts/a/comments/1', 'users/ada/posts/b/comments/2' ]);
+    expect(snapshot.docs[1].data()).toEqual({ text: 'Second' });
+  });
+
+  it('treats document ids in filters as full paths', () => {
+    const query = firestore.collectionGroup('comments').where('__name__', '>=', 'posts/a/comments/1');
+    expect(query[structuredQuerySymbol]().where.fieldFilter.value).toEqual({
+      referenceValue: `${basePath}/posts/a/comments/1`,
+    });
+  });
+
+  it('keeps document ids relative to the collection in regular queries', () => {
+    const query = firestore.collection('posts').where('__name__', '==', 'a');
+    expect(query[structuredQuerySymbol]().where.fieldFilter.value).toEqual({ referenceValue: `${basePath}/posts/a` });
+  });
+
+  it('rejects collection ids containing a slash', () => {
+    expect(() => firestore.collectionGroup('posts/a/comments')).toThrow("Invalid collection id 'posts/a/comments'");
+  });
+});
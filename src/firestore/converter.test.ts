@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import type { DocumentSnapshot } from './document';
+import type { FirestoreDataConverter } from './types';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const time = '2024-05-01T12:00:00Z';
+const adaDocument = {
+  name: `${basePath}/users/ada`,
+  fields: { name: { stringValue: 'Ada' }, born: { integerValue: '1815' } },
+  createTime: time,
+  updateTime: time,
+};
+let requests: Array<{ url: URL, body: any }>;
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    const body = JSON.parse(init.body as string);
+    requests.push({ url, body });
+    let data: object;
+    if (url.pathname.endsWith(':batchGet')) data = [{ found: adaDocument, readTime: time }];
+    else if (url.pathname.endsWith(':runQuery')) data = [{ document: adaDocument, readTime: time }];
+    else data = { writeResults: body.writes.map(() => ({ updateTime: time })), status: [], commitTime: time };
+    return new Response(JSON.stringify(data));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+class User {
+  constructor(readonly name: string, readonly born: number) {}
+}
+
+const userConverter: FirestoreDataConverter<User> = {
+  toFirestore(user: User) {
+    return { name: user.name, born: user.born };
+  },
+  fromFirestore(snapshot: DocumentSnapshot) {
+    const { name, born } = snapshot.data();
+    return new User(name, born);
+  },
+};
+
+
+describe('withConverter', () => {
+  it('converts documents read from a reference', async () => {
+    const snapshot = await firestore.doc('users/ada').withConverter(userConverter).get();
+    const user = snapshot.data();
+    expect(user).toBeInstanceOf(User);
+    expect(user).toEqual(new User('Ada', 1815));
+  });
+
+  it('passes a snapshot of the plain data to fromFirestore', async () => {
+    const fromFirestore = vi.fn(userConverter.fromFirestore);
+    (await firestore.doc('users/ada').withConverter({ ...userConverter, fromFirestore }).get()).data();
+    const [ received ] = fromFirestore.mock.calls[0];
+    expect(received.ref.converter).toBeNull();
+    expect(received.data()).toEqual({ name: 'Ada', born: 1815 });
+  });
+
+  it('converts models written with set() and create()', async () => {
+    const ref = firestore.collection('users').withConverter(userConverter).doc('ada');
+    await ref.set(new User('Ada', 1815));
+    await ref.create(new User('Ada', 1815));
+    for (const { body } of requests) {
+      expect(body.writes[0].update.fields).toEqual(adaDocument.fields);
+    }
+  });
+
+  it('passes set() options to toFirestore', async () => {
+    const toFirestore = vi.fn((user: Partial<User>) => ({ ...user }));
+    const ref = firestore.doc('users/ada').withConverter({ ...userConverter, toFirestore });
+    await ref.set({ name: 'Ada' }, { merge: true });
+    expect(toFirestore).toHaveBeenCalledWith({ name: 'Ada' }, { merge: true });
+    expect(requests[0].body.writes[0].updateMask).toEqual({ fieldPaths: [ 'name' ] });
+  });
+
+  it('does not convert data passed to update()', async () => {
+    const toFirestore = vi.fn(userConverter.toFirestore);
+    await firestore.doc('users/ada').withConverter({ ...userConverter, toFirestore }).update({ born: 1816 });
+    expect(toFirestore).not.toHaveBeenCalled();
+    expect(requests[0].body.writes[0].update.fields).toEqual({ born: { integerValue: '1816' } });
+  });
+
+  it('converts documents returned by queries', async () => {
+    const snapshot = await firestore.collection('users').withConverter(userConverter).where('born', '<', 1900).get();
+    expect(snapshot.docs[0].data()).toBeInstanceOf(User);
+    expect(snapshot.docs[0].ref.converter).toBe(userConverter);
+  });
+
+  it('keeps the converter on documents in a collection and on their parent', () => {
+    const users = firestore.collection('users').withConverter(userConverter);
+    expect(users.doc('ada').converter).toBe(userConverter);
+    expect(users.doc('ada').parent.converter).toBe(userConverter);
+  });
+
+  it('removes the converter when passed null', async () => {
+    const ref = firestore.doc('users/ada').withConverter(userConverter).withConverter(null);
+    expect((await ref.get()).data()).toEqual({ name: 'Ada', born: 1815 });
+  });
+});
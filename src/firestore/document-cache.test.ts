@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { KVCacheStore, MemoryCacheStore } from './document-cache';
+import type { Firestore } from './firestore';
+import { MemoryBackend } from './memory-backend';
+
+let backend: MemoryBackend;
+let store: MemoryCacheStore;
+let firestore: Firestore;
+let reads: string[][];
+
+beforeEach(async () => {
+  backend = new MemoryBackend();
+  store = new MemoryCacheStore();
+  reads = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input).includes(':batchGet')) reads.push(JSON.parse(init.body as string).documents);
+    return backend.fetch(input, init);
+  };
+  const documentCache = { store, ttls: { config: 60, 'users/ada/settings': 30 } };
+  firestore = new App({ projectId: 'test', getToken: async () => 'token', fetch, documentCache }, 'key').firestore();
+  const batch = firestore.batch();
+  batch.set(firestore.doc('config/app'), { version: 1 });
+  batch.set(firestore.doc('users/ada'), { name: 'Ada' });
+  batch.set(firestore.doc('users/ada/settings/theme'), { dark: true });
+  batch.set(firestore.doc('users/alan/settings/theme'), { dark: false });
+  await batch.commit();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+
+describe('document cache', () => {
+  it('reads documents in cached collections once until they expire', async () => {
+    const now = Date.now();
+    expect((await firestore.doc('config/app').get()).get('version')).toBe(1);
+    expect((await firestore.doc('config/app').get()).get('version')).toBe(1);
+    expect(reads).toHaveLength(1);
+
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now + 30_000);
+    await firestore.doc('config/app').get();
+    expect(reads).toHaveLength(1);
+    clock.mockReturnValue(now + 61_000);
+    await firestore.doc('config/app').get();
+    expect(reads).toHaveLength(2);
+  });
+
+  it('caches by collection path and leaves other collections uncached', async () => {
+    await firestore.doc('users/ada/settings/theme').get();
+    await firestore.doc('users/ada/settings/theme').get();
+    await firestore.doc('users/alan/settings/theme').get();
+    await firestore.doc('users/alan/settings/theme').get();
+    await firestore.doc('users/ada').get();
+    await firestore.doc('users/ada').get();
+    expect(reads.flat().map(name => name.split('/documents/')[1])).toEqual([
+      'users/ada/settings/theme', 'users/alan/settings/theme', 'users/alan/settings/theme', 'users/ada', 'users/ada',
+    ]);
+  });
+
+  it('caches missing documents', async () => {
+    expect((await firestore.doc('config/missing').get()).exists).toBe(false);
+    expect((await firestore.doc('config/missing').get()).exists).toBe(false);
+    expect(reads).toHaveLength(1);
+  });
+
+  it('fetches only the documents missing from the cache', async () => {
+    await firestore.doc('config/app').get();
+    const refs = [ firestore.doc('users/ada'), firestore.doc('config/app') ];
+    const snapshots = await firestore.batchGet(refs);
+    expect(snapshots.map(snapshot => snapshot.ref.path)).toEqual([ 'users/ada', 'config/app' ]);
+    expect(reads[1].map(name => name.split('/documents/')[1])).toEqual([ 'users/ada' ]);
+  });
+
+  it('bypasses the cache for field masks, transactions and read times', async () => {
+    await firestore.doc('config/app').get();
+    await firestore.doc('config/app').get([ 'version' ]);
+    await firestore.doc('config/app').get({ readTime: new Date() });
+    await firestore.runTransaction(async transaction => {
+      await transaction.get(firestore.doc('config/app'));
+    });
+    expect(reads).toHaveLength(4);
+  });
+
+  it('invalidates documents written by batches, transactions and bulk writers', async () => {
+    const ref = firestore.doc('config/app');
+    await ref.get();
+    await ref.update({ version: 2 });
+    expect((await ref.get()).get('version')).toBe(2);
+
+    await firestore.runTransaction(async transaction => {
+      transaction.update(ref, { version: 3 });
+    });
+    expect((await ref.get()).get('version')).toBe(3);
+
+    const bulkWriter = firestore.bulkWriter();
+    bulkWriter.update(ref, { version: 4 });
+    await bulkWriter.close();
+    expect((await ref.get()).get('version')).toBe(4);
+    expect(reads).toHaveLength(4);
+  });
+
+  it('reads from Firestore when the store fails', async () => {
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('Cache unavailable'));
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('Cache unavailable'));
+    vi.spyOn(store, 'delete').mockRejectedValue(new Error('Cache unavailable'));
+    expect((await firestore.doc('config/app').get()).get('version')).toBe(1);
+    await firestore.doc('config/app').update({ version: 2 });
+    expect((await firestore.doc('config/app').get()).get('version')).toBe(2);
+    expect(reads).toHaveLength(2);
+  });
+});
+
+
+describe('KVCacheStore', () => {
+  it('stores entries with a prefix and a TTL of at least a minute', async () => {
+    const namespace = { get: vi.fn(async () => null), put: vi.fn(), delete: vi.fn() };
+    const kvStore = new KVCacheStore(namespace as unknown as KVNamespace, 'docs:');
+    const value = { missing: 'projects/test/databases/(default)/documents/config/app', readTime: '' };
+    await kvStore.put('config/app', value, 30);
+    expect(namespace.put).toHaveBeenCalledWith('docs:config/app', JSON.stringify(value), { expirationTtl: 60 });
+    expect(await kvStore.get('config/app')).toBeUndefined();
+    expect(namespace.get).toHaveBeenCalledWith('docs:config/app', 'json');
+    await kvStore.delete('config/app');
+    expect(namespace.delete).toHaveBeenCalledWith('docs:config/app');
+  });
+});
@@ -0,0 +1,119 @@
+import { decodePath } from './serializer';
+import type { DocumentCacheSettings, DocumentCacheStore, api } from './types';
+
+// KV rejects expirations shorter than a minute
+const minKVTtl = 60;
+
+
+/**
+ * Caches documents in memory, shared by every request handled by the same isolate. Create it once at module scope
+ * so it outlives each request's `App`.
+ */
+export class MemoryCacheStore implements DocumentCacheStore {
+  private entries = new Map<string, { value: api.BatchGetResponse, expires: number }>();
+
+  async get(key: string): Promise<api.BatchGetResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires <= Date.now()) this.entries.delete(key);
+    else return entry?.value;
+  }
+
+  async put(key: string, value: api.BatchGetResponse, ttl: number): Promise<void> {
+    this.entries.set(key, { value, expires: Date.now() + ttl * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+
+/**
+ * Caches documents with the Workers Cache API, e.g. `new CacheApiStore(caches.default)`. The cache is local to each
+ * data center, so writes only invalidate the entries in the data center they were made from.
+ */
+export class CacheApiStore implements DocumentCacheStore {
+
+  constructor(readonly cache: Cache, readonly origin = 'https://workers-firebase.cache') {}
+
+  async get(key: string): Promise<api.BatchGetResponse | undefined> {
+    const response = await this.cache.match(this.url(key));
+    return response ? response.json() : undefined;
+  }
+
+  async put(key: string, value: api.BatchGetResponse, ttl: number): Promise<void> {
+    const headers = { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${ttl}` };
+    await this.cache.put(this.url(key), new Response(JSON.stringify(value), { headers }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.url(key));
+  }
+
+  private url(key: string) {
+    return `${this.origin}/${encodeURIComponent(key)}`;
+  }
+}
+
+
+/**
+ * Caches documents in a KV namespace. KV is eventually consistent, so other locations may read a document up to a
+ * minute after it was invalidated, and TTLs shorter than a minute are rounded up to one.
+ */
+export class KVCacheStore implements DocumentCacheStore {
+
+  constructor(readonly namespace: KVNamespace, readonly prefix = '') {}
+
+  async get(key: string): Promise<api.BatchGetResponse | undefined> {
+    return (await this.namespace.get<api.BatchGetResponse>(this.prefix + key, 'json')) ?? undefined;
+  }
+
+  async put(key: string, value: api.BatchGetResponse, ttl: number): Promise<void> {
+    await this.namespace.put(this.prefix + key, JSON.stringify(value), { expirationTtl: Math.max(ttl, minKVTtl) });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(this.prefix + key);
+  }
+}
+
+
+/**
+ * The read-through cache behind `Firestore.batchGet()`, keyed by the documents' full names. Only documents in
+ * collections with a TTL are cached.
+ */
+export class DocumentCache {
+
+  constructor(readonly settings: DocumentCacheSettings) {}
+
+  // A failure to read from the cache is treated as a miss, so the documents are fetched from Firestore instead
+  async getAll(names: string[]): Promise<Map<string, api.BatchGetResponse>> {
+    const entries = await Promise.all(names.filter(name => this.ttl(name)).map(async name =>
+      [ name, await this.settings.store.get(name).catch((): undefined => undefined) ] as const));
+    return new Map(entries.filter(([ , value ]) => value));
+  }
+
+  // A failure to cache shouldn't fail the read, the document is fetched again next time
+  async putAll(results: api.BatchGetResponse[]): Promise<void> {
+    await Promise.all(results.map(result => {
+      const name = result.missing || result.found.name;
+      const ttl = this.ttl(name);
+      return ttl && this.settings.store.put(name, result, ttl).catch(() => {});
+    }));
+  }
+
+  // The writes have already been committed when this is called, so a failure leaves the entry to expire rather than
+  // failing the write
+  async invalidate(writes: api.Write[]): Promise<void> {
+    const names = writes.map(write => write.update?.name || write.delete || write.transform?.document);
+    await Promise.all(names.filter(name => this.ttl(name)).map(name =>
+      this.settings.store.delete(name).catch(() => {})));
+  }
+
+  // Seconds to cache a document for, looked up by its collection's path and then by its collection id
+  private ttl(name: string): number | undefined {
+    const segments = decodePath(name).split('/');
+    const { ttls } = this.settings;
+    return ttls[segments.slice(0, -1).join('/')] ?? ttls[segments[segments.length - 2]];
+  }
+}
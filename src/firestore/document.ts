@@ -1,6 +1,8 @@
-import { DocumentReference } from './reference';
+import { FieldPath } from './field-path';
+import type { DocumentReference } from './reference';
 import { decode, decodeValue } from './serializer';
-import { docSymbol, readTimeSymbol } from './symbols';
+import { docSymbol, fieldValueSymbol, readTimeSymbol } from './symbols';
+import { Timestamp } from './timestamp';
 import { api, DocumentData } from './types';
 
 
@@ -23,21 +25,46 @@ export class DocumentSnapshot<T = DocumentData> {
     return this[readTimeSymbol] && new Date(this[readTimeSymbol]);
   }
 
+  /** The exact time the document was created, with nanosecond precision. */
+  get createTimestamp(): Timestamp {
+    return this[docSymbol].createTime && Timestamp.fromString(this[docSymbol].createTime);
+  }
+
+  /** The exact time the document was last updated, with nanosecond precision. */
+  get updateTimestamp(): Timestamp {
+    return this[docSymbol].updateTime && Timestamp.fromString(this[docSymbol].updateTime);
+  }
+
+  /** The exact time the document was read, with nanosecond precision. */
+  get readTimestamp(): Timestamp {
+    return this[readTimeSymbol] && Timestamp.fromString(this[readTimeSymbol]);
+  }
+
   get exists() {
     return !!this[docSymbol]?.fields;
   }
 
-  data() {
-    return this[docSymbol]?.fields && decode(this.ref.firestore, this[docSymbol].fields) || null;
+  data(): T {
+    if (!this[docSymbol]?.fields) return null;
+    if (this.ref.converter) {
+      const snapshot = new DocumentSnapshot(this.ref.withConverter(null), this[docSymbol], this[readTimeSymbol]);
+      return this.ref.converter.fromFirestore(snapshot);
+    }
+    return decode<T>(this.ref.firestore, this[docSymbol].fields);
   }
 
-  get(field: string): any {
+  get(field: string | FieldPath): any {
+    const value = this[fieldValueSymbol](field);
+    return value ? decodeValue(this.ref.firestore, value) : undefined;
+  }
+
+  // The field's value as stored
+  [fieldValueSymbol](field: string | FieldPath): api.Value | undefined {
     let fields: api.MapValue | api.Value | undefined = this[docSymbol].fields;
-    const components = field.split('.');
+    const components = FieldPath.from(field).segments.slice();
     while (fields && components.length > 1) {
-      fields = (fields as api.MapValue)[components.shift()]?.mapValue.fields;
+      fields = (fields as api.MapValue)[components.shift()]?.mapValue?.fields;
     }
-    const value = fields?.[components[0]];
-    return value ? decodeValue(this.ref.firestore, value) : undefined;
+    return fields?.[components[0]];
   }
 }
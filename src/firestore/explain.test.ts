@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { AggregateField } from './aggregate';
+import { decodeExplainMetrics } from './explain';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const readTime = '2024-05-01T12:00:00Z';
+const planSummary = { indexesUsed: [{ query_scope: 'Collection', properties: '(age ASC, __name__ ASC)' }] };
+const executionStats = {
+  resultsReturned: '1',
+  executionDuration: '0.012500s',
+  readOperations: '2',
+  debugStats: { documents_scanned: '5', index_entries_scanned: '6' },
+};
+let requests: Array<{ url: URL, body: any }>;
+let responses: object[];
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    requests.push({ url: new URL(input), body: JSON.parse(init.body as string) });
+    return new Response(JSON.stringify(responses.shift()));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+
+describe('decodeExplainMetrics', () => {
+  it('converts numbers and durations', () => {
+    expect(decodeExplainMetrics({ planSummary, executionStats })).toEqual({
+      planSummary,
+      executionStats: {
+        resultsReturned: 1,
+        executionDuration: 12.5,
+        readOperations: 2,
+        documentsScanned: 5,
+        debugStats: executionStats.debugStats,
+      },
+    });
+  });
+
+  it('returns no execution stats for plans', () => {
+    expect(decodeExplainMetrics({})).toEqual({ planSummary: { indexesUsed: [] }, executionStats: null });
+  });
+});
+
+
+describe('Query.explain', () => {
+  const query = firestore.collection('users').where('age', '>', 30);
+
+  it('plans the query without running it', async () => {
+    responses.push([{ readTime, explainMetrics: { planSummary } }]);
+    const { metrics, snapshot } = await query.explain();
+    expect(requests[0].body.explainOptions).toEqual({ analyze: false });
+    expect(requests[0].body.structuredQuery.where.fieldFilter.field).toEqual({ fieldPath: 'age' });
+    expect(metrics).toEqual({ planSummary, executionStats: null });
+    expect(snapshot).toBeNull();
+  });
+
+  it('runs the query when analyzing', async () => {
+    const document = { name: `${basePath}/users/ada`, fields: { age: { integerValue: '36' } } };
+    responses.push([{ document, readTime }, { readTime, explainMetrics: { planSummary, executionStats } }]);
+    const { metrics, snapshot } = await query.explain({ analyze: true });
+    expect(requests[0].body.explainOptions).toEqual({ analyze: true });
+    expect(metrics.executionStats.resultsReturned).toBe(1);
+    expect(snapshot.docs.map(doc => doc.data())).toEqual([{ age: 36 }]);
+  });
+});
+
+
+describe('AggregateQuery.explain', () => {
+  const aggregate = firestore.collection('users').aggregate({ total: AggregateField.sum('age') });
+
+  it('plans the aggregation without running it', async () => {
+    responses.push([{ readTime, explainMetrics: { planSummary } }]);
+    const { metrics, snapshot } = await aggregate.explain();
+    expect(requests[0].url.pathname).toBe(`/v1/${basePath}:runAggregationQuery`);
+    expect(requests[0].body.explainOptions).toEqual({ analyze: false });
+    expect(metrics.planSummary).toEqual(planSummary);
+    expect(snapshot).toBeNull();
+  });
+
+  it('runs the aggregation when analyzing', async () => {
+    const result = { aggregateFields: { total: { integerValue: '77' } } };
+    responses.push([{ result, readTime, explainMetrics: { planSummary, executionStats } }]);
+    const { metrics, snapshot } = await aggregate.explain({ analyze: true });
+    expect(metrics.executionStats.documentsScanned).toBe(5);
+    expect(snapshot.data()).toEqual({ total: 77 });
+  });
+});
@@ -0,0 +1,19 @@
+import type { ExplainMetrics, api } from './types';
+
+
+/**
+ * Converts the explain metrics returned by the API, in which numbers are strings and durations are like `'0.0123s'`.
+ */
+export function decodeExplainMetrics(metrics: api.ExplainMetrics): ExplainMetrics {
+  const stats = metrics?.executionStats;
+  return {
+    planSummary: { indexesUsed: metrics?.planSummary?.indexesUsed || [] },
+    executionStats: stats ? {
+      resultsReturned: Number(stats.resultsReturned || 0),
+      executionDuration: parseFloat(stats.executionDuration || '0') * 1000,
+      readOperations: Number(stats.readOperations || 0),
+      documentsScanned: Number(stats.debugStats?.documents_scanned || 0),
+      debugStats: stats.debugStats || {},
+    } : null,
+  };
+}
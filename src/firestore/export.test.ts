@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from '../app';
+import type { Firestore } from './firestore';
+import { MemoryBackend } from './memory-backend';
+import { GeoPoint } from './serializer';
+import type { ExportedDocument, api } from './types';
+
+let firestore: Firestore;
+let target: Firestore;
+
+beforeEach(async () => {
+  const getToken = async () => 'token';
+  firestore = new App({ projectId: 'test', getToken, fetch: new MemoryBackend().fetch }, 'key').firestore();
+  target = new App({ projectId: 'other', getToken, fetch: new MemoryBackend().fetch }, 'key').firestore();
+  const batch = firestore.batch();
+  const born = new Date('1815-12-10T00:00:00Z');
+  batch.set(firestore.doc('users/ada'), { name: 'Ada', born, home: new GeoPoint(51.5, -0.1) });
+  batch.set(firestore.doc('users/ada/posts/1'), { title: 'Notes', author: firestore.doc('users/ada') });
+  batch.set(firestore.doc('users/alan'), { name: 'Alan', scores: [ 1, 2.5 ] });
+  batch.set(firestore.doc('teams/a'), { name: 'A' });
+  await batch.commit();
+});
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<ExportedDocument[]> {
+  const text = await new Response(stream).text();
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+function streamOf(text: string, chunkSize = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset += chunkSize));
+    },
+  });
+}
+
+
+describe('exportDocuments', () => {
+  it('exports a collection as one JSON document per line', async () => {
+    const documents = await readAll(firestore.exportDocuments(firestore.collection('users')));
+    expect(documents.map(doc => doc.path)).toEqual([ 'users/ada', 'users/alan' ]);
+    expect(documents[1].fields).toEqual({
+      name: { stringValue: 'Alan' },
+      scores: { arrayValue: { values: [{ integerValue: '1' }, { doubleValue: '2.5' }] } },
+    });
+    expect(documents[1].createTime).toBeTruthy();
+    expect(documents[1].updateTime).toBeTruthy();
+  });
+
+  it('exports subcollections when recursive', async () => {
+    const stream = firestore.exportDocuments(firestore.collection('users'), { recursive: true, pageSize: 1 });
+    const documents = await readAll(stream);
+    expect(documents.map(doc => doc.path).sort()).toEqual([ 'users/ada', 'users/ada/posts/1', 'users/alan' ]);
+  });
+
+  it('exports every id in a collection, and nothing from collections next to it', async () => {
+    const batch = firestore.batch();
+    for (const path of [ 'users/Zed', 'users/__id7__', 'users/~', 'users!/ada', 'usersX/ada' ]) {
+      batch.set(firestore.doc(path), { path });
+    }
+    await batch.commit();
+    const documents = await readAll(firestore.exportDocuments(firestore.collection('users'), { recursive: true }));
+    expect(documents.map(doc => doc.path)).toEqual([
+      'users/__id7__', 'users/Zed', 'users/ada', 'users/ada/posts/1', 'users/alan', 'users/~',
+    ]);
+  });
+
+  it('exports a document and, when recursive, its subcollections', async () => {
+    const ada = firestore.doc('users/ada');
+    expect((await readAll(firestore.exportDocuments(ada))).map(doc => doc.path)).toEqual([ 'users/ada' ]);
+    const documents = await readAll(firestore.exportDocuments(ada, { recursive: true }));
+    expect(documents.map(doc => doc.path)).toEqual([ 'users/ada', 'users/ada/posts/1' ]);
+  });
+
+  it('exports nothing for a missing document', async () => {
+    expect(await readAll(firestore.exportDocuments(firestore.doc('users/nobody')))).toEqual([]);
+  });
+});
+
+
+describe('importDocuments', () => {
+  it('writes exported documents with their values unchanged', async () => {
+    const progress: number[] = [];
+    const stream = firestore.exportDocuments(firestore.collection('users'), { recursive: true });
+    const imported = await target.importDocuments(stream, { onProgress: count => progress.push(count) });
+    expect(imported).toBe(3);
+    expect(progress).toEqual([ 1, 2, 3 ]);
+
+    const ada = (await target.doc('users/ada').get()).data();
+    expect(ada).toEqual({ name: 'Ada', born: new Date('1815-12-10T00:00:00Z'), home: new GeoPoint(51.5, -0.1) });
+    expect((await target.doc('users/alan').get()).get('scores')).toEqual([ 1, 2.5 ]);
+  });
+
+  it('points references at the importing database', async () => {
+    const stream = firestore.exportDocuments(firestore.doc('users/ada'), { recursive: true });
+    await target.importDocuments(stream);
+    const author = (await target.doc('users/ada/posts/1').get()).get('author');
+    expect(author.qualifiedPath).toBe('projects/other/databases/(default)/documents/users/ada');
+  });
+
+  it('reads lines split across chunks and skips blank lines', async () => {
+    const lines = [
+      JSON.stringify({ path: 'items/1', fields: { n: { integerValue: '1' } } }),
+      '',
+      JSON.stringify({ path: 'items/2', fields: { n: { integerValue: '2' } } }),
+    ];
+    expect(await target.importDocuments(streamOf(lines.join('\n')))).toBe(2);
+    const snapshot = await target.collection('items').get();
+    expect(snapshot.docs.map(doc => doc.get('n'))).toEqual([ 1, 2 ]);
+  });
+
+  it('replaces existing documents', async () => {
+    await target.doc('users/ada').set({ name: 'Old', extra: true });
+    await target.importDocuments(firestore.exportDocuments(firestore.doc('users/ada')));
+    expect((await target.doc('users/ada').get()).get('extra')).toBeUndefined();
+  });
+
+  it('writes the rest and then rejects when writes fail', async () => {
+    const backend = new MemoryBackend();
+    // Fails writes to users/alan and stores the others
+    const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (!new URL(String(input)).pathname.endsWith(':batchWrite')) return backend.fetch(input, init);
+      const { writes } = JSON.parse(init.body as string) as api.BatchWriteRequest;
+      const failed = writes.map(write => write.update.name.endsWith('/users/alan'));
+      const stored = writes.filter((write, i) => !failed[i]);
+      await backend.fetch(input, { ...init, body: JSON.stringify({ writes: stored }) });
+      return new Response(JSON.stringify({
+        writeResults: failed.map(failed => failed ? {} : { updateTime: '2024-05-01T12:00:00Z' }),
+        status: failed.map(failed => failed ? { code: 7, message: 'Permission denied' } : { code: 0, message: '' }),
+      }));
+    };
+    const failing = new App({ projectId: 'other', getToken: async () => 'token', fetch }, 'key').firestore();
+    const progress: number[] = [];
+    const stream = firestore.exportDocuments(firestore.collection('users'));
+    await expect(failing.importDocuments(stream, { onProgress: count => progress.push(count) })).rejects.toThrow(
+      '1 write failed. The last write failed with: Permission denied'
+    );
+    expect(progress).toEqual([ 1 ]);
+    expect((await failing.doc('users/ada').get()).get('name')).toBe('Ada');
+  });
+});
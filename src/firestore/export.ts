@@ -0,0 +1,120 @@
+import type { Firestore } from './firestore';
+import { getDescendantsQuery } from './recursive-delete';
+import { CollectionReference, DocumentReference, Query } from './reference';
+import { decodePath } from './serializer';
+import { docSymbol, enqueueSymbol } from './symbols';
+import type { ExportedDocument, ExportOptions, ImportOptions, api } from './types';
+import { WriteProgress } from './write-progress';
+
+// Imported documents are flushed in chunks so only one chunk of writes is held in memory
+const importChunkSize = 500;
+
+
+/**
+ * Streams a document or collection as newline-delimited JSON, one `ExportedDocument` per line. Documents are fetched
+ * a page at a time as the stream is read.
+ */
+export function exportDocuments(
+  firestore: Firestore,
+  ref: DocumentReference<any> | CollectionReference<any>,
+  options: ExportOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const documents = exportedDocuments(firestore, ref, options);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await documents.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+    },
+    async cancel() {
+      await documents.return(undefined);
+    },
+  });
+}
+
+/**
+ * Writes the documents from a stream created by `exportDocuments()`, replacing any documents already at their paths.
+ * References to documents in the exporting database are pointed at this one. Create and update times are set by the
+ * server and can't be restored. Resolves with the number of documents written.
+ */
+export async function importDocuments(
+  firestore: Firestore,
+  stream: ReadableStream<Uint8Array>,
+  options: ImportOptions = {}
+): Promise<number> {
+  const bulkWriter = options.bulkWriter || firestore.bulkWriter();
+  const progress = new WriteProgress('write', options.onProgress);
+  let chunk = 0;
+
+  for await (const line of readLines(stream)) {
+    if (!line.trim()) continue;
+    const { path, fields } = JSON.parse(line) as ExportedDocument;
+    const ref = firestore.doc(path);
+    const write: api.Write = { update: { name: ref.qualifiedPath, fields: toDatabase(firestore, fields) } };
+    progress.track(bulkWriter[enqueueSymbol](ref, 'set', write));
+    if (++chunk === importChunkSize) {
+      chunk = 0;
+      await bulkWriter.flush();
+    }
+  }
+  await bulkWriter.flush();
+
+  progress.throwIfFailed();
+  return progress.succeeded;
+}
+
+async function* exportedDocuments(
+  firestore: Firestore,
+  ref: DocumentReference<any> | CollectionReference<any>,
+  options: ExportOptions
+): AsyncGenerator<ExportedDocument> {
+  const { recursive, pageSize, readTime } = options;
+  if (ref instanceof DocumentReference) {
+    const [ snapshot ] = await firestore.batchGet([ ref ], undefined, { readTime });
+    // Checked directly as documents without any fields don't report that they exist
+    if (snapshot[docSymbol]) yield exportDocument(snapshot[docSymbol]);
+    if (!recursive) return;
+  }
+  const query: Query = recursive ? getDescendantsQuery(ref) : ref as CollectionReference;
+  for await (const snapshot of query.pages({ pageSize, readTime })) {
+    for (const doc of snapshot.docs) yield exportDocument(doc[docSymbol]);
+  }
+}
+
+function exportDocument(doc: api.Document): ExportedDocument {
+  const { name, fields = {}, createTime, updateTime } = doc;
+  return { path: decodePath(name), fields, createTime, updateTime };
+}
+
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+      for (const line of lines) yield line;
+      if (done) break;
+    }
+    yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Values are exported with full resource names, which would be rejected by a different project or database
+function toDatabase(firestore: Firestore, fields: api.MapValue): api.MapValue {
+  const convert = (value: api.Value): api.Value => {
+    if (value.referenceValue) {
+      return { referenceValue: `${firestore.basePath}/${decodePath(value.referenceValue)}` };
+    }
+    if (value.arrayValue?.values) return { arrayValue: { values: value.arrayValue.values.map(convert) } };
+    if (value.mapValue?.fields) return { mapValue: { fields: toDatabase(firestore, value.mapValue.fields) } };
+    return value;
+  };
+  return Object.fromEntries(Object.entries(fields).map(([ key, value ]) => [ key, convert(value) ]));
+}
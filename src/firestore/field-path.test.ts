@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { FieldPath, encodeFieldPath, isDocumentId } from './field-path';
+import { structuredQuerySymbol } from './symbols';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+
+
+describe('FieldPath', () => {
+  it('leaves simple segments unquoted', () => {
+    expect(new FieldPath('address', 'city').toString()).toBe('address.city');
+    expect(new FieldPath('_private', 'a1').toString()).toBe('_private.a1');
+  });
+
+  it('quotes segments with special characters in backticks', () => {
+    expect(new FieldPath('user-data', 'first.name').toString()).toBe('`user-data`.`first.name`');
+    expect(new FieldPath('1st').toString()).toBe('`1st`');
+    expect(new FieldPath('with space').toString()).toBe('`with space`');
+  });
+
+  it('escapes backticks and backslashes within quoted segments', () => {
+    expect(new FieldPath('a`b').toString()).toBe('`a\\`b`');
+    expect(new FieldPath('a\\b').toString()).toBe('`a\\\\b`');
+  });
+
+  it('parses dotted strings into segments', () => {
+    expect(FieldPath.from('address.city').segments).toEqual([ 'address', 'city' ]);
+    expect(FieldPath.from('`user-data`.`first.name`').segments).toEqual([ 'user-data', 'first.name' ]);
+    expect(FieldPath.from('`a\\`b`.c').segments).toEqual([ 'a`b', 'c' ]);
+  });
+
+  it('round-trips any segment through its string form', () => {
+    for (const segments of [ [ 'a.b', 'c' ], [ 'c`d' ], [ 'e\\f', 'g h' ], [ 'ünïcode', '☃' ] ]) {
+      expect(FieldPath.from(new FieldPath(...segments).toString()).segments).toEqual(segments);
+    }
+  });
+
+  it('rejects invalid paths', () => {
+    expect(() => new FieldPath()).toThrow('A field path must have at least one segment');
+    expect(() => new FieldPath('a', '')).toThrow("Invalid field path segment: ''");
+    expect(() => FieldPath.from('a..b')).toThrow('empty field name');
+    expect(() => FieldPath.from('a.')).toThrow('empty field name');
+    expect(() => FieldPath.from('`a')).toThrow('unterminated backtick');
+    expect(() => FieldPath.from('`a\\')).toThrow('trailing escape character');
+  });
+
+  it('compares paths by their encoded form', () => {
+    expect(new FieldPath('a', 'b').isEqual(FieldPath.from('a.b'))).toBe(true);
+    expect(new FieldPath('a.b').isEqual(FieldPath.from('a.b'))).toBe(false);
+  });
+
+  it('recognizes the document id', () => {
+    expect(isDocumentId(FieldPath.documentId())).toBe(true);
+    expect(isDocumentId('__name__')).toBe(true);
+    expect(isDocumentId('name')).toBe(false);
+    expect(encodeFieldPath(FieldPath.documentId())).toBe('__name__');
+  });
+});
+
+
+describe('field paths in queries', () => {
+  it('encodes FieldPaths in filters, orders and selects', () => {
+    const field = new FieldPath('user-data', 'age');
+    const query = firestore.collection('users').where(field, '>', 18).orderBy(field, 'desc').select(field);
+    const { where, orderBy, select } = query[structuredQuerySymbol]();
+    expect(where.fieldFilter.field).toEqual({ fieldPath: '`user-data`.age' });
+    expect(orderBy[0]).toEqual({ field: { fieldPath: '`user-data`.age' }, direction: 'DESCENDING' });
+    expect(select).toEqual({ fields: [{ fieldPath: '`user-data`.age' }] });
+  });
+
+  it('converts document ids given for FieldPath.documentId() to references', () => {
+    const query = firestore.collection('users').where(FieldPath.documentId(), '==', 'ada');
+    expect(query[structuredQuerySymbol]().where.fieldFilter).toEqual({
+      field: { fieldPath: '__name__' },
+      op: 'EQUAL',
+      value: { referenceValue: 'projects/test/databases/(default)/documents/users/ada' },
+    });
+  });
+});
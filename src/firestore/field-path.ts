@@ -0,0 +1,93 @@
+// Segments which don't need quoting in an encoded field path
+const simpleSegment = /^[_a-zA-Z][_a-zA-Z0-9]*$/;
+
+const documentIdSegment = '__name__';
+
+
+/**
+ * A path to a field in a document. Each segment is a field name, which may contain any character including dots,
+ * e.g. `new FieldPath('a.b', 'c')` refers to field `c` within the map field named `a.b`. A FieldPath may be used
+ * everywhere a field path string is accepted.
+ *
+ * Strings are parsed in Firestore's field path syntax: segments separated by dots, with segments that contain special
+ * characters optionally wrapped in backticks, e.g. `'address.city'` or ``'`user-data`.`first.name`'``.
+ */
+export class FieldPath {
+  /**
+   * A special sentinel to refer to the id of a document, for use in queries.
+   */
+  static documentId(): FieldPath {
+    return new FieldPath(documentIdSegment);
+  }
+
+  /**
+   * Converts a field path string, or returns the FieldPath when given one.
+   */
+  static from(path: string | FieldPath): FieldPath {
+    if (path instanceof FieldPath) return path;
+    if (typeof path !== 'string') throw new Error(`Invalid field path: ${path}`);
+    return new FieldPath(...parseFieldPath(path));
+  }
+
+  readonly segments: string[];
+
+  constructor(...segments: string[]) {
+    if (!segments.length) throw new Error('A field path must have at least one segment');
+    segments.forEach(segment => {
+      if (typeof segment !== 'string' || !segment) throw new Error(`Invalid field path segment: '${segment}'`);
+    });
+    this.segments = segments;
+  }
+
+  /**
+   * The field path encoded for the Firestore API, with segments quoted where needed.
+   */
+  toString(): string {
+    return this.segments.map(encodeSegment).join('.');
+  }
+
+  isEqual(other: FieldPath): boolean {
+    return other instanceof FieldPath && this.toString() === other.toString();
+  }
+}
+
+/**
+ * Encodes a field path string or FieldPath for the Firestore API.
+ */
+export function encodeFieldPath(path: string | FieldPath): string {
+  return FieldPath.from(path).toString();
+}
+
+export function isDocumentId(path: string | FieldPath) {
+  return encodeFieldPath(path) === documentIdSegment;
+}
+
+function encodeSegment(segment: string) {
+  if (simpleSegment.test(segment)) return segment;
+  return '`' + segment.replace(/\\/g, '\\\\').replace(/`/g, '\\`') + '`';
+}
+
+function parseFieldPath(path: string): string[] {
+  const segments: string[] = [];
+  let segment = '';
+  let quoted = false;
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (quoted && char === '\\') {
+      if (++i === path.length) throw new Error(`Invalid field path, trailing escape character: '${path}'`);
+      segment += path[i];
+    } else if (char === '`') {
+      quoted = !quoted;
+    } else if (char === '.' && !quoted) {
+      if (!segment) throw new Error(`Invalid field path, empty field name: '${path}'`);
+      segments.push(segment);
+      segment = '';
+    } else {
+      segment += char;
+    }
+  }
+  if (quoted) throw new Error(`Invalid field path, unterminated backtick: '${path}'`);
+  if (!segment) throw new Error(`Invalid field path, empty field name: '${path}'`);
+  segments.push(segment);
+  return segments;
+}
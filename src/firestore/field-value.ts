@@ -1,4 +1,5 @@
-import { encodeValue } from './serializer';
+import { FieldPath } from './field-path';
+import { encodeValue, VectorValue } from './serializer';
 import { api } from './types';
 
 export class FieldValue {
@@ -13,6 +14,28 @@ export class FieldValue {
     return new FieldValue('setToServerValue', 'REQUEST_TIME');
   }
 
+  /**
+   * Creates a vector, such as an embedding, to store in a field and search
+   * with `Query.findNearest()`.
+   *
+   * @param values The numbers in the vector.
+   * @return A VectorValue for use as a field value or query vector.
+   */
+  static vector(values: number[]): VectorValue {
+    return new VectorValue(values);
+  }
+
+  /**
+   * Returns a sentinel for use with update() or set() with merge to mark a
+   * field for deletion.
+   *
+   * @return The FieldValue sentinel for use in a call to update() or set()
+   * with merge.
+   */
+  static delete(): FieldValue {
+    return new FieldValue('delete', undefined);
+  }
+
   static maximum(value: number) {
     return new FieldValue('maximum', value);
   }
@@ -76,7 +99,8 @@ export class FieldValue {
   constructor(readonly transform: string, readonly value: any) {}
 
   encode(fieldPath: string): api.FieldTransform {
-    const value = fieldPath === 'setToServerValue' ? this.value : encodeValue(this.value);
+    let value = this.transform === 'setToServerValue' ? this.value : encodeValue(this.value);
+    if (value.arrayValue) value = value.arrayValue;
     return { fieldPath, [this.transform]: value };
   }
 }
@@ -85,9 +109,16 @@ export class UpdateCollector {
   paths: string[] = [];
   mask: api.DocumentMask = { fieldPaths: [] };
   transforms: api.FieldTransform[] = [];
+  deletes: string[] = [];
 
   transform(transform: FieldValue) {
-    this.transforms.push(transform.encode(this.paths.join('.')));
+    if (!this.paths.length) throw new Error(`FieldValue.${transform.transform}() must be used as the value of a field`);
+    if (transform.transform === 'delete') {
+      // Deleted fields are added to the mask without a value
+      this.deletes.push(this.fieldPath);
+    } else {
+      this.transforms.push(transform.encode(this.fieldPath));
+    }
   }
 
   enterField(field: string) {
@@ -96,9 +127,14 @@ export class UpdateCollector {
 
   leaveField(addMask: boolean) {
     // If the field is not set, and it wasn't a transform, add it to the mask
-    if (addMask && this.transforms[this.transforms.length - 1]?.fieldPath !== this.paths.join('.')) {
-      this.mask.fieldPaths.push(this.paths.join('.'));
+    if (addMask && this.transforms[this.transforms.length - 1]?.fieldPath !== this.fieldPath) {
+      this.mask.fieldPaths.push(this.fieldPath);
     }
     this.paths.pop();
   }
+
+  // The current path, with field names quoted as needed
+  get fieldPath() {
+    return new FieldPath(...this.paths).toString();
+  }
 }
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { Filter } from './filter';
+import { structuredQuerySymbol } from './symbols';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const users = firestore.collection('users');
+
+const field = (fieldPath: string, op: string, value: object) => ({ fieldFilter: { field: { fieldPath }, op, value } });
+
+
+describe('Filter', () => {
+  it('encodes OR filters', () => {
+    const query = users.where(Filter.or(Filter.where('age', '<', 18), Filter.where('role', '==', 'admin')));
+    expect(query[structuredQuerySymbol]().where).toEqual({
+      compositeFilter: {
+        op: 'OR',
+        filters: [
+          field('age', 'LESS_THAN', { integerValue: '18' }),
+          field('role', 'EQUAL', { stringValue: 'admin' }),
+        ],
+      },
+    });
+  });
+
+  it('encodes nested composite filters', () => {
+    const query = users.where(Filter.or(
+      Filter.where('status', '==', 'open'),
+      Filter.and(Filter.where('status', '==', 'closed'), Filter.where('reopened', '==', null)),
+    ));
+    expect(query[structuredQuerySymbol]().where).toEqual({
+      compositeFilter: {
+        op: 'OR',
+        filters: [
+          field('status', 'EQUAL', { stringValue: 'open' }),
+          {
+            compositeFilter: {
+              op: 'AND',
+              filters: [
+                field('status', 'EQUAL', { stringValue: 'closed' }),
+                { unaryFilter: { field: { fieldPath: 'reopened' }, op: 'IS_NULL' } },
+              ],
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('combines separate where() calls with AND', () => {
+    const query = users.where('age', '>', 18).where(Filter.or(Filter.where('a', '==', 1), Filter.where('b', '==', 2)));
+    const { where } = query[structuredQuerySymbol]();
+    expect(where.compositeFilter.op).toBe('AND');
+    expect(where.compositeFilter.filters[0]).toEqual(field('age', 'GREATER_THAN', { integerValue: '18' }));
+    expect(where.compositeFilter.filters[1].compositeFilter.op).toBe('OR');
+  });
+
+  it('unwraps composite filters with a single filter', () => {
+    const query = users.where(Filter.and(Filter.where('age', '>', 18)));
+    expect(query[structuredQuerySymbol]().where).toEqual(field('age', 'GREATER_THAN', { integerValue: '18' }));
+  });
+
+  it('leaves out empty composite filters', () => {
+    expect(users.where(Filter.or())[structuredQuerySymbol]().where).toBeUndefined();
+  });
+
+  it('rejects undefined values', () => {
+    expect(() => Filter.where('age', '==', undefined)).toThrow('Where value cannot be undefined');
+  });
+});
@@ -0,0 +1,51 @@
+import type { FieldPath } from './field-path';
+import type { WhereFilterOp } from './types';
+
+export type CompositeFilterOp = 'AND' | 'OR';
+
+
+/**
+ * A filter which may be passed to `Query.where()`. Filters are created with `Filter.where()` and combined with
+ * `Filter.or()` and `Filter.and()`, which may be nested to any depth.
+ *
+ * @example
+ * query.where(Filter.or(
+ *   Filter.where('status', '==', 'open'),
+ *   Filter.and(Filter.where('status', '==', 'closed'), Filter.where('reopened', '==', true)),
+ * ));
+ */
+export abstract class Filter {
+  /**
+   * Creates a filter on a single field, equivalent to `query.where(fieldPath, opStr, value)`.
+   */
+  static where(fieldPath: string | FieldPath, opStr: WhereFilterOp, value: unknown): Filter {
+    if (value === undefined) throw new Error('Where value cannot be undefined');
+    return new FieldFilter(fieldPath, opStr, value);
+  }
+
+  /**
+   * Creates a filter matching documents which match any of the given filters.
+   */
+  static or(...filters: Filter[]): Filter {
+    return new CompositeFilter('OR', filters);
+  }
+
+  /**
+   * Creates a filter matching documents which match all of the given filters.
+   */
+  static and(...filters: Filter[]): Filter {
+    return new CompositeFilter('AND', filters);
+  }
+}
+
+export class FieldFilter extends Filter {
+  constructor(readonly fieldPath: string | FieldPath, readonly opStr: WhereFilterOp, readonly value: unknown) {
+    super();
+  }
+}
+
+export class CompositeFilter extends Filter {
+  constructor(readonly op: CompositeFilterOp, readonly filters: Filter[]) {
+    super();
+  }
+}
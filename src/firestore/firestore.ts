@@ -1,45 +1,127 @@
 import { createId } from 'crypto-id';
 import { FirebaseService } from '../service';
 import type { HTTPMethod, Settings } from '../types';
+import { BulkWriter } from './bulk-writer';
 import { DocumentSnapshot } from './document';
-import { CollectionReference, DocumentReference } from './reference';
-import { transactionSymbol, writesSymbol } from './symbols';
-import type { ConsistencyOptions, api } from './types';
+import { DocumentCache } from './document-cache';
+import { exportDocuments, importDocuments } from './export';
+import { encodeFieldPath, FieldPath } from './field-path';
+import { CollectionGroup, CollectionReference, DocumentReference } from './reference';
+import { recursiveDelete } from './recursive-delete';
+import { backoff, isRetryableError } from './retry';
+import { encodeConsistency } from './serializer';
+import { cacheSymbol, commitSymbol, rollbackSymbol } from './symbols';
+import { Transaction } from './transaction';
+import type {
+  BulkWriterOptions, ConsistencyOptions, DocumentData, ExportOptions, ImportOptions, ReadTimeOptions,
+  RecursiveDeleteOptions, TransactionOptions, api
+} from './types';
 import { WriteBatch } from './write-batch';
 
 
 export class Firestore extends FirebaseService {
   basePath: string;
-  [transactionSymbol]: string = undefined;
-  [writesSymbol]: api.Write[] = undefined;
+  readonly useTimestamps: boolean;
+  readonly [cacheSymbol]: DocumentCache;
 
   constructor(settings: Settings, apiKey: string) {
     super('firestore', 'https://firestore.googleapis.com/v1', settings, apiKey);
     this.basePath = `projects/${settings.projectId}/databases/${settings.databaseId || '(default)'}/documents`;
+    this.useTimestamps = !!settings.useTimestamps;
+    this[cacheSymbol] = settings.documentCache && new DocumentCache(settings.documentCache);
   }
 
   collection(path: string): CollectionReference {
     return new CollectionReference(this, path);
   }
 
+  /**
+   * Creates a query that includes every collection or subcollection with the given id, e.g. all `comments`
+   * subcollections across every post.
+   */
+  collectionGroup(collectionId: string): CollectionGroup {
+    return new CollectionGroup(this, collectionId);
+  }
+
   doc(path: string): DocumentReference {
     return new DocumentReference(this, path);
   }
 
-  async runTransaction<T>(updateFunction: () => Promise<T>, options?: api.TransactionOptions): Promise<T> {
-    this[transactionSymbol] = (await this.request('POST', ':beginTransaction', { options }) as {transaction: string}).transaction;
-    this[writesSymbol] = [];
-    const result = await updateFunction();
-    (await this.request('POST', ':commit', { writes: this[writesSymbol], transaction: this[transactionSymbol] }));
-    this[transactionSymbol] = undefined;
-    this[writesSymbol] = undefined;
-    return result;
+  /**
+   * Runs `updateFunction` inside a transaction and commits its writes. If the transaction is aborted because of
+   * contention it is rolled back and the update function is run again, up to `maxAttempts` times.
+   */
+  async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    const { readOnly, readTime, maxAttempts = 5 } = options;
+
+    if (readOnly && readTime) {
+      // Reads pinned to a point in time don't need a server-side transaction
+      return updateFunction(new Transaction(this, { readTime: readTime.toISOString() }, true));
+    }
+
+    let retryTransaction: string;
+    let lastError: unknown;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (attempt) await backoff(attempt);
+      const transactionOptions: api.TransactionOptions = readOnly
+        ? { readOnly: {} }
+        : { readWrite: retryTransaction ? { retryTransaction } : {} };
+      const { transaction: id } = await this.request<api.BeginTransactionResponse>(
+        'POST', ':beginTransaction', { options: transactionOptions }
+      );
+      const transaction = new Transaction(this, { transaction: id }, readOnly);
+      try {
+        const result = await updateFunction(transaction);
+        await transaction[commitSymbol]();
+        return result;
+      } catch (err) {
+        lastError = err;
+        await transaction[rollbackSymbol]().catch(() => {});
+        if (!isRetryableError(err)) throw err;
+        retryTransaction = id;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Deletes a document or collection and all of its subcollections. Documents which don't exist but have
+   * subcollections are cleaned up as well.
+   */
+  recursiveDelete(ref: DocumentReference<any> | CollectionReference<any>, options?: RecursiveDeleteOptions) {
+    return recursiveDelete(this, ref, options);
+  }
+
+  /**
+   * Exports a document or collection as a stream of newline-delimited JSON, with `recursive` including all of their
+   * subcollections. Field values are kept in their typed form so `importDocuments()` writes them back exactly. Pass a
+   * `readTime` to export every document as it was at one moment.
+   */
+  exportDocuments(
+    ref: DocumentReference<any> | CollectionReference<any>, options?: ExportOptions
+  ): ReadableStream<Uint8Array> {
+    return exportDocuments(this, ref, options);
+  }
+
+  /**
+   * Writes documents exported by `exportDocuments()`, overwriting existing documents with the same paths. Resolves
+   * with the number of documents written.
+   */
+  importDocuments(stream: ReadableStream<Uint8Array>, options?: ImportOptions): Promise<number> {
+    return importDocuments(this, stream, options);
   }
 
   batch(): WriteBatch {
     return new WriteBatch(this);
   }
 
+  /**
+   * Creates a BulkWriter for writing large numbers of documents, which are not committed atomically.
+   */
+  bulkWriter(options?: BulkWriterOptions): BulkWriter {
+    return new BulkWriter(this, options);
+  }
+
   request<T>(method: HTTPMethod, path: string, search?: URLSearchParams, body?: object): Promise<T>;
   request<T>(method: HTTPMethod, path: string, body?: object): Promise<T>;
   async request<T>(method: HTTPMethod, path?: string, searchOrBody?: URLSearchParams | object, body?: object): Promise<T> {
@@ -52,13 +134,24 @@ export class Firestore extends FirebaseService {
     return createId(20);
   }
 
-  async batchGet(refs: DocumentReference[], fields?: string[], consistency?: ConsistencyOptions): Promise<DocumentSnapshot[]> {
-    const mask = fields && { fieldPaths: fields };
-    const request: api.BatchGetRequest = { documents: refs.map(ref => ref.qualifiedPath), mask, ...consistency, transaction: this[transactionSymbol] };
-    const response: api.BatchGetResponse[] = await this.request('POST', ':batchGet',  request);
-    const docMap = new Map<string, api.BatchGetResponse>();
+  async batchGet<T = DocumentData>(
+    refs: DocumentReference<T>[], fields?: Array<string | FieldPath>, consistency?: ConsistencyOptions | ReadTimeOptions
+  ): Promise<DocumentSnapshot<T>[]> {
+    const mask = fields && { fieldPaths: fields.map(encodeFieldPath) };
+    const request: api.BatchGetRequest = {
+      documents: refs.map(ref => ref.qualifiedPath), mask, ...encodeConsistency(consistency),
+    };
+    // Only whole documents read outside of transactions and at the current time are cached
+    const { transaction, newTransaction, readTime } = request;
+    const cache = !mask && !transaction && !newTransaction && !readTime ? this[cacheSymbol] : undefined;
+    const docMap = cache ? await cache.getAll(request.documents) : new Map<string, api.BatchGetResponse>();
+    const documents = request.documents.filter(name => !docMap.has(name));
+    if (documents.length) {
+      const response: api.BatchGetResponse[] = await this.request('POST', ':batchGet', { ...request, documents });
+      await cache?.putAll(response);
+      response.forEach(result => docMap.set(result.missing || result.found.name, result));
+    }
     // return in the same order as requested
-    response.forEach(result => docMap.set(result.missing || result.found.name, result));
     return request.documents.map((name, i) => {
       const result = docMap.get(name);
       const doc = result.missing ? null : result.found;
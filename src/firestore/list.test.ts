@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const updateTime = '2024-05-01T12:00:00Z';
+let requests: Array<{ method: string, url: URL, body: any }>;
+let responses: any[];
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ method: init.method, url: new URL(input), body });
+    return new Response(JSON.stringify(responses.shift()));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function document(id: string) {
+  return { name: `${basePath}/letters/${id}`, fields: { id: { stringValue: id } }, createTime: updateTime, updateTime };
+}
+
+
+describe('CollectionReference.listDocuments', () => {
+  it('follows page tokens until every document is returned', async () => {
+    responses.push(
+      { documents: [ document('a'), document('b') ], nextPageToken: 'page-2' },
+      { documents: [ document('c') ] },
+    );
+    const refs = await firestore.collection('letters').listDocuments({ pageSize: 2 });
+
+    expect(refs.map(ref => ref.path)).toEqual([ 'letters/a', 'letters/b', 'letters/c' ]);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url.searchParams.get('pageSize')).toBe('2');
+    expect(requests[0].url.searchParams.get('showMissing')).toBe('true');
+    expect(requests[0].url.searchParams.has('pageToken')).toBe(false);
+    expect(requests[1].url.searchParams.get('pageToken')).toBe('page-2');
+  });
+
+  it('handles an empty collection', async () => {
+    responses.push({});
+    expect(await firestore.collection('letters').listDocuments()).toEqual([]);
+  });
+
+  it('sends the field mask and order', async () => {
+    responses.push({ documents: [ document('a') ] });
+    await firestore.collection('letters').listDocuments({
+      fieldMask: [ 'id', 'title' ],
+      showMissing: false,
+      orderBy: 'id desc',
+    });
+    const { searchParams } = requests[0].url;
+    expect(searchParams.getAll('mask.fieldPaths')).toEqual([ 'id', 'title' ]);
+    expect(searchParams.get('orderBy')).toBe('id desc');
+    expect(searchParams.has('showMissing')).toBe(false);
+  });
+
+  it('rejects ordering when missing documents are shown', async () => {
+    await expect(firestore.collection('letters').listDocuments({ orderBy: 'id' })).rejects.toThrow(
+      'listDocuments() cannot order results when showMissing is set.'
+    );
+  });
+});
+
+
+describe('CollectionReference.iterateDocuments', () => {
+  it('yields snapshots, with missing documents which do not exist', async () => {
+    responses.push({ documents: [ document('a'), { name: `${basePath}/letters/b` } ] });
+    const snapshots = [];
+    for await (const snapshot of firestore.collection('letters').iterateDocuments()) snapshots.push(snapshot);
+
+    expect(snapshots.map(snapshot => snapshot.exists)).toEqual([ true, false ]);
+    expect(snapshots[0].data()).toEqual({ id: 'a' });
+  });
+
+  it('fetches the next page only when iteration reaches it', async () => {
+    responses.push({ documents: [ document('a') ], nextPageToken: 'page-2' }, { documents: [ document('b') ] });
+    for await (const snapshot of firestore.collection('letters').iterateDocuments({ pageSize: 1 })) {
+      expect(snapshot.ref.id).toBe('a');
+      break;
+    }
+    expect(requests).toHaveLength(1);
+  });
+});
+
+
+describe('DocumentReference.listCollections', () => {
+  it('follows page tokens until every collection is returned', async () => {
+    responses.push({ collectionIds: [ 'comments', 'likes' ], nextPageToken: 'page-2' }, { collectionIds: [ 'shares' ] });
+    const collections = await firestore.doc('posts/a').listCollections({ pageSize: 2 });
+
+    expect(collections.map(collection => collection.path)).toEqual([
+      'posts/a/comments', 'posts/a/likes', 'posts/a/shares',
+    ]);
+    expect(requests[0].url.pathname).toBe(`/v1/${basePath}/posts/a:listCollectionIds`);
+    expect(requests[0].body).toEqual({ pageSize: 2 });
+    expect(requests[1].body).toEqual({ pageSize: 2, pageToken: 'page-2' });
+  });
+
+  it('handles a document without subcollections', async () => {
+    responses.push({});
+    expect(await firestore.doc('posts/a').listCollections()).toEqual([]);
+  });
+});
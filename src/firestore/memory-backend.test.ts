@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { MemoryBackend } from '../testing';
+import { FieldValue } from './field-value';
+import { Filter } from './filter';
+import type { Firestore } from './firestore';
+import { Timestamp } from './timestamp';
+
+let backend: MemoryBackend;
+let firestore: Firestore;
+
+beforeEach(() => {
+  backend = new MemoryBackend();
+  firestore = new App({ projectId: 'test', getToken: async () => 'token', fetch: backend.fetch }, 'key').firestore();
+});
+
+async function addUsers() {
+  const batch = firestore.batch();
+  batch.set(firestore.doc('users/ada'), { name: 'Ada', age: 36, tags: [ 'math', 'code' ] });
+  batch.set(firestore.doc('users/alan'), { name: 'Alan', age: 41, tags: [ 'math' ] });
+  batch.set(firestore.doc('users/grace'), { name: 'Grace', age: 85, tags: [ 'code', 'navy' ] });
+  batch.set(firestore.doc('users/linus'), { name: 'Linus', age: 54, tags: [] });
+  await batch.commit();
+}
+
+function ids(snapshot: { docs: Array<{ ref: { id: string } }> }) {
+  return snapshot.docs.map(doc => doc.ref.id);
+}
+
+
+describe('batchGet', () => {
+  it('returns found and missing documents in the order requested', async () => {
+    await addUsers();
+    const refs = [ firestore.doc('users/grace'), firestore.doc('users/nobody'), firestore.doc('users/ada') ];
+    const [ grace, nobody, ada ] = await firestore.batchGet(refs);
+    expect(grace.data()).toEqual({ name: 'Grace', age: 85, tags: [ 'code', 'navy' ] });
+    expect(nobody.exists).toBe(false);
+    expect(ada.get('name')).toBe('Ada');
+  });
+
+  it('returns only the fields in the mask', async () => {
+    await addUsers();
+    const [ ada ] = await firestore.batchGet([ firestore.doc('users/ada') ], [ 'name' ]);
+    expect(ada.data()).toEqual({ name: 'Ada' });
+  });
+});
+
+
+describe('runQuery', () => {
+  beforeEach(addUsers);
+
+  it('filters documents', async () => {
+    const users = firestore.collection('users');
+    expect(ids(await users.where('age', '>', 40).get())).toEqual([ 'alan', 'linus', 'grace' ]);
+    expect(ids(await users.where('tags', 'array-contains', 'code').get())).toEqual([ 'ada', 'grace' ]);
+    expect(ids(await users.where('name', 'in', [ 'Ada', 'Linus' ]).get())).toEqual([ 'ada', 'linus' ]);
+    expect(ids(await users.where('name', '!=', 'Ada').orderBy('name').get())).toEqual([ 'alan', 'grace', 'linus' ]);
+  });
+
+  it('filters documents with OR filters', async () => {
+    const filter = Filter.or(Filter.where('age', '<', 40), Filter.where('name', '==', 'Grace'));
+    expect(ids(await firestore.collection('users').where(filter).get())).toEqual([ 'ada', 'grace' ]);
+  });
+
+  it('orders and limits documents', async () => {
+    const users = firestore.collection('users');
+    expect(ids(await users.orderBy('age', 'desc').get())).toEqual([ 'grace', 'linus', 'alan', 'ada' ]);
+    expect(ids(await users.orderBy('age').limit(2).get())).toEqual([ 'ada', 'alan' ]);
+    expect(ids(await users.orderBy('age').offset(1).limit(2).get())).toEqual([ 'alan', 'linus' ]);
+  });
+
+  it('starts and ends at cursors', async () => {
+    const byAge = firestore.collection('users').orderBy('age');
+    expect(ids(await byAge.startAt(41).get())).toEqual([ 'alan', 'linus', 'grace' ]);
+    expect(ids(await byAge.startAfter(41).get())).toEqual([ 'linus', 'grace' ]);
+    expect(ids(await byAge.endAt(54).get())).toEqual([ 'ada', 'alan', 'linus' ]);
+    expect(ids(await byAge.endBefore(54).get())).toEqual([ 'ada', 'alan' ]);
+    const [ alan ] = await firestore.batchGet([ firestore.doc('users/alan') ]);
+    expect(ids(await byAge.startAfter(alan).limit(1).get())).toEqual([ 'linus' ]);
+  });
+
+  it('leaves out documents without the ordered field', async () => {
+    await firestore.doc('users/anonymous').set({ name: 'Anonymous' });
+    expect(ids(await firestore.collection('users').orderBy('age').get())).toEqual([ 'ada', 'alan', 'linus', 'grace' ]);
+  });
+});
+
+
+describe('batchWrite', () => {
+  it('applies each write on its own', async () => {
+    await firestore.doc('users/ada').set({ name: 'Ada' });
+    const bulkWriter = firestore.bulkWriter();
+    const created = bulkWriter.create(firestore.doc('users/alan'), { name: 'Alan' });
+    const conflict = bulkWriter.create(firestore.doc('users/ada'), { name: 'Ada' });
+    await bulkWriter.close();
+
+    await expect(created).resolves.toBeInstanceOf(Date);
+    await expect(conflict).rejects.toMatchObject({ status: 'ALREADY_EXISTS' });
+    const [ alan ] = await firestore.batchGet([ firestore.doc('users/alan') ]);
+    expect(alan.data()).toEqual({ name: 'Alan' });
+  });
+});
+
+
+describe('transactions', () => {
+  it('commits writes made in a transaction', async () => {
+    await firestore.doc('counters/visits').set({ count: 1 });
+    await firestore.runTransaction(async transaction => {
+      const snapshot = await transaction.get(firestore.doc('counters/visits'));
+      transaction.update(snapshot.ref, { count: snapshot.get('count') + 1 });
+    });
+    const [ visits ] = await firestore.batchGet([ firestore.doc('counters/visits') ]);
+    expect(visits.get('count')).toBe(2);
+  });
+
+  it('aborts when a document read in the transaction has changed', async () => {
+    const ref = firestore.doc('counters/visits');
+    await ref.set({ count: 1 });
+    const attempt = firestore.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      await ref.set({ count: 10 });
+      transaction.update(ref, { count: snapshot.get('count') + 1 });
+    }, { maxAttempts: 1 });
+
+    await expect(attempt).rejects.toMatchObject({ status: 'ABORTED' });
+    const [ visits ] = await firestore.batchGet([ ref ]);
+    expect(visits.get('count')).toBe(10);
+  });
+
+  it('aborts when a document read by a query has changed', async () => {
+    await firestore.doc('counters/visits').set({ count: 1 });
+    const attempt = firestore.runTransaction(async transaction => {
+      const snapshot = await transaction.get(firestore.collection('counters').where('count', '>', 0));
+      await firestore.doc('counters/visits').update({ count: 2 });
+      transaction.set(firestore.doc('totals/visits'), { total: snapshot.size });
+    }, { maxAttempts: 1 });
+    await expect(attempt).rejects.toMatchObject({ status: 'ABORTED' });
+  });
+
+  it('retries an aborted transaction', async () => {
+    const ref = firestore.doc('counters/visits');
+    await ref.set({ count: 1 });
+    let attempts = 0;
+    await firestore.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      if (!attempts++) await ref.set({ count: 10 });
+      transaction.update(ref, { count: snapshot.get('count') + 1 });
+    });
+    const [ visits ] = await firestore.batchGet([ ref ]);
+    expect(attempts).toBe(2);
+    expect(visits.get('count')).toBe(11);
+  });
+
+  it('rejects writes in a read-only transaction', async () => {
+    const attempt = firestore.runTransaction(async transaction => {
+      transaction.set(firestore.doc('counters/visits'), { count: 1 });
+    }, { readOnly: true });
+    await expect(attempt).rejects.toThrow();
+  });
+});
+
+
+describe('listing', () => {
+  beforeEach(async () => {
+    const batch = firestore.batch();
+    [ 'a', 'b', 'c', 'd', 'e' ].forEach(id => batch.set(firestore.doc(`letters/${id}`), { id }));
+    [ 'comments', 'likes', 'shares' ].forEach(id => batch.set(firestore.doc(`letters/a/${id}/1`), { id }));
+    // A document which doesn't exist but has a subcollection
+    batch.set(firestore.doc('letters/f/comments/1'), {});
+    await batch.commit();
+  });
+
+  it('lists documents across pages', async () => {
+    const refs = await firestore.collection('letters').listDocuments({ pageSize: 2 });
+    expect(refs.map(ref => ref.id)).toEqual([ 'a', 'b', 'c', 'd', 'e', 'f' ]);
+  });
+
+  it('lists only existing documents when showMissing is off', async () => {
+    const refs = await firestore.collection('letters').listDocuments({ pageSize: 4, showMissing: false });
+    expect(refs.map(ref => ref.id)).toEqual([ 'a', 'b', 'c', 'd', 'e' ]);
+  });
+
+  it('lists collection ids across pages', async () => {
+    const collections = await firestore.doc('letters/a').listCollections({ pageSize: 2 });
+    expect(collections.map(collection => collection.id)).toEqual([ 'comments', 'likes', 'shares' ]);
+  });
+});
+
+
+describe('field transforms', () => {
+  it('applies transforms when writing', async () => {
+    const ref = firestore.doc('posts/first');
+    await ref.set({ views: 1, tags: [ 'a' ] });
+    const updateTime = await ref.update({
+      views: FieldValue.increment(2),
+      tags: FieldValue.arrayUnion('a', 'b'),
+      editedAt: FieldValue.serverTimestamp(),
+    });
+
+    const [ post ] = await firestore.batchGet([ ref ]);
+    expect(post.get('views')).toBe(3);
+    expect(post.get('tags')).toEqual([ 'a', 'b' ]);
+    expect(post.get('editedAt')).toEqual(updateTime);
+  });
+
+  it('removes array elements and clamps to a maximum', async () => {
+    const ref = firestore.doc('posts/first');
+    await ref.set({ score: 5, tags: [ 'a', 'b', 'a' ] });
+    await ref.update({ score: FieldValue.maximum(3), tags: FieldValue.arrayRemove('a') });
+    const [ post ] = await firestore.batchGet([ ref ]);
+    expect(post.data()).toEqual({ score: 5, tags: [ 'b' ] });
+  });
+});
+
+
+describe('preconditions', () => {
+  it('fails to create a document which exists', async () => {
+    await firestore.doc('users/ada').create({ name: 'Ada' });
+    await expect(firestore.doc('users/ada').create({ name: 'Ada' })).rejects.toMatchObject({ status: 'ALREADY_EXISTS' });
+  });
+
+  it('fails to update a document which does not exist', async () => {
+    await expect(firestore.doc('users/ada').update({ name: 'Ada' })).rejects.toMatchObject({ status: 'NOT_FOUND' });
+  });
+
+  it('checks the last update time', async () => {
+    const ref = firestore.doc('users/ada');
+    await ref.set({ name: 'Ada' });
+    const [ snapshot ] = await firestore.batchGet([ ref ]);
+    await ref.update({ age: 36 }, { lastUpdateTime: snapshot.updateTimestamp });
+
+    const stale = ref.update({ age: 37 }, { lastUpdateTime: snapshot.updateTimestamp });
+    await expect(stale).rejects.toMatchObject({ status: 'FAILED_PRECONDITION' });
+    const [ ada ] = await firestore.batchGet([ ref ]);
+    expect(ada.data()).toEqual({ name: 'Ada', age: 36 });
+  });
+
+  it('applies none of a commit\'s writes when one fails', async () => {
+    const batch = firestore.batch();
+    batch.set(firestore.doc('users/ada'), { name: 'Ada' });
+    batch.update(firestore.doc('users/alan'), { name: 'Alan' });
+    await expect(batch.commit()).rejects.toMatchObject({ status: 'NOT_FOUND' });
+    const [ ada ] = await firestore.batchGet([ firestore.doc('users/ada') ]);
+    expect(ada.exists).toBe(false);
+  });
+
+  it('fails a delete at an old update time', async () => {
+    const ref = firestore.doc('users/ada');
+    await ref.set({ name: 'Ada' });
+    const lastUpdateTime = Timestamp.fromMillis(0);
+    await expect(ref.delete({ lastUpdateTime })).rejects.toMatchObject({ status: 'FAILED_PRECONDITION' });
+  });
+});
@@ -0,0 +1,599 @@
+import { StatusError } from '../status-error';
+import { FieldPath } from './field-path';
+import { statusNames } from './retry';
+import { isVector, vectorValues } from './serializer';
+import { Timestamp } from './timestamp';
+import type { ConsistencyOptions, DistanceMeasure, api } from './types';
+import { compareValues, isNaNValue, typeOrder } from './value-order';
+
+// HTTP status codes returned alongside each canonical status name
+const httpCodes: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  FAILED_PRECONDITION: 400,
+  NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  ABORTED: 409,
+  UNIMPLEMENTED: 501,
+};
+
+const rangeOperators = new Set([ 'LESS_THAN', 'LESS_THAN_OR_EQUAL', 'GREATER_THAN', 'GREATER_THAN_OR_EQUAL' ]);
+const inequalityOperators = new Set([ ...rangeOperators, 'NOT_EQUAL', 'NOT_IN', 'IS_NOT_NAN', 'IS_NOT_NULL' ]);
+const documentId = '__name__';
+const maxInteger = 2n ** 63n - 1n;
+const minInteger = -(2n ** 63n);
+
+const distanceMeasures: Record<DistanceMeasure, (a: number[], b: number[]) => number> = {
+  EUCLIDEAN: (a, b) => Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0)),
+  COSINE: (a, b) => 1 - dotProduct(a, b) / Math.sqrt(dotProduct(a, a) * dotProduct(b, b)),
+  DOT_PRODUCT: dotProduct,
+};
+
+interface MemoryTransaction {
+  readOnly: boolean;
+  // The update time of each document when it was first read, or an empty string if it didn't exist
+  reads: Map<string, string>;
+}
+
+interface QueryResult {
+  docs: api.Document[];
+  skippedResults: number;
+  documentsScanned: number;
+}
+
+type QueryRequest = ConsistencyOptions & { explainOptions?: api.ExplainOptions };
+
+
+/**
+ * An in-memory implementation of the Firestore REST API, for running code which uses Firestore in tests without
+ * network access. Pass its `fetch` in the settings in place of the global fetch.
+ *
+ * Transactions are optimistic: committing fails with ABORTED if a document the transaction read has changed since,
+ * which `runTransaction()` retries. Reads at a `readTime` return the current data, as no history is kept.
+ *
+ * Import it from `workers-firebase/testing` so it stays out of production bundles.
+ *
+ * @example
+ * import { MemoryBackend } from 'workers-firebase/testing';
+ *
+ * const backend = new MemoryBackend();
+ * const app = new App({ projectId: 'test', getToken: async () => '', fetch: backend.fetch }, 'api-key');
+ */
+export class MemoryBackend {
+  private documents = new Map<string, api.Document>();
+  private transactions = new Map<string, MemoryTransaction>();
+  private lastTime: Timestamp;
+  private lastTransactionId = 0;
+
+  /**
+   * Answers Firestore requests from memory, with the same signature as the global fetch.
+   */
+  readonly fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const path = decodeURIComponent(url.pathname).replace(/^\/v1\//, '');
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : {};
+    let data: any;
+    let status = 200;
+    try {
+      data = this.handle(init?.method || 'GET', path, url.searchParams, body);
+    } catch (err) {
+      if (!(err instanceof StatusError)) throw err;
+      data = { error: { code: err.code, message: err.message, status: err.status } };
+      status = err.code;
+    }
+    return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+
+  /**
+   * Deletes all documents and open transactions.
+   */
+  clear() {
+    this.documents.clear();
+    this.transactions.clear();
+  }
+
+  private handle(method: string, path: string, search: URLSearchParams, body: any): any {
+    const [ , resource, verb ] = /^(.*?)(?::(\w+))?$/.exec(path);
+    switch (verb) {
+      case 'batchGet': return this.batchGet(body);
+      case 'runQuery': return this.runQuery(resource, body);
+      case 'runAggregationQuery': return this.runAggregationQuery(resource, body);
+      case 'partitionQuery': return this.partitionQuery(resource, body);
+      case 'batchWrite': return this.batchWrite(body);
+      case 'beginTransaction': return this.beginTransaction(body);
+      case 'commit': return this.commit(body);
+      case 'rollback': return this.rollback(body);
+      case 'listCollectionIds': return this.listCollectionIds(resource, body);
+    }
+    if (!verb && method === 'GET') return this.listDocuments(resource, search);
+    throw statusError('UNIMPLEMENTED', `${method} ${path} is not supported by the memory backend`);
+  }
+
+  private batchGet(request: api.BatchGetRequest): api.BatchGetResponse[] {
+    const transaction = this.readTransaction(request);
+    const readTime = this.now();
+    return request.documents.map((name, i) => {
+      this.recordRead(transaction, name);
+      const doc = this.documents.get(name);
+      const result: api.BatchGetResponse = doc
+        ? { found: project(doc, request.mask?.fieldPaths), readTime }
+        : { missing: name, readTime };
+      if (!i && request.newTransaction) result.transaction = transaction;
+      return result;
+    });
+  }
+
+  private runQuery(parent: string, request: { structuredQuery: api.StructuredQuery } & QueryRequest) {
+    const { explainOptions } = request;
+    const readTime = this.now();
+    if (explainOptions && !explainOptions.analyze) return [{ readTime, explainMetrics: explainMetrics() }];
+    const transaction = this.readTransaction(request);
+    const { docs, skippedResults, documentsScanned } = this.query(parent, request.structuredQuery);
+    docs.forEach(doc => this.recordRead(transaction, doc.name));
+    const fieldPaths = request.structuredQuery.select?.fields?.map(field => field.fieldPath);
+    const response: api.RunQueryResponse[] = docs.map(doc => ({ document: project(doc, fieldPaths), readTime }));
+    // Like the API, skipped results are reported in their own entry, and an empty result still has an entry
+    if (skippedResults || !response.length) response.unshift({ readTime, skippedResults: skippedResults || undefined });
+    if (request.newTransaction) response[0].transaction = transaction;
+    if (explainOptions) response.push({ readTime, explainMetrics: explainMetrics(docs.length, documentsScanned) });
+    return response;
+  }
+
+  private runAggregationQuery(
+    parent: string, request: { structuredAggregationQuery: api.StructuredAggregationQuery } & QueryRequest
+  ): api.RunAggregationQueryResponse[] {
+    const { explainOptions } = request;
+    const readTime = this.now();
+    if (explainOptions && !explainOptions.analyze) return [{ readTime, explainMetrics: explainMetrics() }];
+    const transaction = this.readTransaction(request);
+    const { structuredQuery, aggregations } = request.structuredAggregationQuery;
+    const { docs, documentsScanned } = this.query(parent, structuredQuery);
+    docs.forEach(doc => this.recordRead(transaction, doc.name));
+    const aggregateFields: Record<string, api.Value> = {};
+    aggregations.forEach(({ alias, count, sum, avg }) => {
+      if (count) {
+        const total = count.upTo ? Math.min(docs.length, Number(count.upTo)) : docs.length;
+        aggregateFields[alias] = { integerValue: String(total) };
+        return;
+      }
+      const values = docs.map(doc => getValue(doc, (sum || avg).field.fieldPath)).filter(isNumber);
+      if (sum && values.every(value => 'integerValue' in value)) {
+        const total = values.reduce((total, value) => total + BigInt(value.integerValue), 0n);
+        aggregateFields[alias] = { integerValue: String(total) };
+      } else {
+        const total = values.reduce((total, value) => total + Number(value.integerValue ?? value.doubleValue), 0);
+        if (sum) aggregateFields[alias] = { doubleValue: total };
+        else aggregateFields[alias] = values.length ? { doubleValue: total / values.length } : { nullValue: null };
+      }
+    });
+    return [{
+      result: { aggregateFields },
+      readTime,
+      transaction: request.newTransaction ? transaction : undefined,
+      explainMetrics: explainOptions ? explainMetrics(1, documentsScanned) : undefined,
+    }];
+  }
+
+  private partitionQuery(parent: string, request: api.PartitionQueryRequest): api.PartitionQueryResponse {
+    const { docs } = this.query(parent, request.structuredQuery);
+    const count = Math.min(Number(request.partitionCount), docs.length - 1);
+    // Boundaries are spread evenly through the results
+    const partitions: api.Cursor[] = [];
+    for (let i = 1; i <= count; i++) {
+      partitions.push({ values: [{ referenceValue: docs[Math.floor(i * docs.length / (count + 1))].name }] });
+    }
+    return { partitions };
+  }
+
+  private batchWrite(request: api.BatchWriteRequest): api.BatchWriteResponse {
+    // Each write is applied on its own, and may fail while the others succeed
+    const commitTime = this.now();
+    const writeResults: api.WriteResult[] = [];
+    const status = request.writes.map(write => {
+      try {
+        writeResults.push(applyWrite(this.documents, write, commitTime));
+        return { code: 0, message: '' };
+      } catch (err) {
+        if (!(err instanceof StatusError)) throw err;
+        writeResults.push({});
+        return { code: statusNames.indexOf(err.status), message: err.message };
+      }
+    });
+    return { writeResults, status };
+  }
+
+  private beginTransaction(request: api.BeginTransactionRequest): api.BeginTransactionResponse {
+    const transaction = btoa(`transaction-${++this.lastTransactionId}`);
+    this.transactions.set(transaction, { readOnly: !!request.options?.readOnly, reads: new Map() });
+    return { transaction };
+  }
+
+  private commit(request: api.CommitRequest): api.CommitResponse {
+    const writes = request.writes || [];
+    if (request.transaction) {
+      const transaction = this.takeTransaction(request.transaction);
+      if (transaction.readOnly && writes.length) {
+        throw statusError('INVALID_ARGUMENT', 'Cannot modify entities in a read-only transaction.');
+      }
+      transaction.reads.forEach((updateTime, name) => {
+        if ((this.documents.get(name)?.updateTime || '') !== updateTime) {
+          throw statusError('ABORTED', `Transaction aborted, document ${name} was changed since it was read.`);
+        }
+      });
+    }
+    // Writes are applied to a copy, so none are applied if any fail
+    const commitTime = this.now();
+    const documents = new Map(this.documents);
+    const writeResults = writes.map(write => applyWrite(documents, write, commitTime));
+    this.documents = documents;
+    return { writeResults, commitTime };
+  }
+
+  private rollback(request: api.RollbackRequest) {
+    this.takeTransaction(request.transaction);
+    return {};
+  }
+
+  private listDocuments(collection: string, search: URLSearchParams): api.ListDocumentsResponse {
+    const showMissing = search.get('showMissing') === 'true';
+    const names = new Set<string>();
+    this.documents.forEach((doc, name) => {
+      if (!name.startsWith(collection + '/')) return;
+      const [ id, ...descendants ] = name.slice(collection.length + 1).split('/');
+      // Documents which don't exist but have subcollections are only listed when showMissing is set
+      if (!descendants.length || showMissing) names.add(`${collection}/${id}`);
+    });
+
+    const orderBy: api.StructuredQueryOrder[] = (search.get('orderBy') || '').split(',').filter(Boolean).map(order => {
+      const [ fieldPath, direction = '' ] = order.trim().split(/\s+/);
+      return { field: { fieldPath }, direction: direction.toLowerCase() === 'desc' ? 'DESCENDING' : 'ASCENDING' };
+    });
+    const docs = [ ...names ].map(name => this.documents.get(name) || { name, fields: undefined });
+    docs.sort((a, b) => compareDocuments(a, b, withNameOrder(orderBy)));
+
+    const fieldPaths = search.has('mask.fieldPaths') ? search.getAll('mask.fieldPaths') : undefined;
+    const offset = Number(search.get('pageToken')) || 0;
+    const pageSize = Number(search.get('pageSize')) || docs.length;
+    return {
+      documents: docs.slice(offset, offset + pageSize).map(doc => doc.fields ? project(doc, fieldPaths) : doc),
+      nextPageToken: offset + pageSize < docs.length ? String(offset + pageSize) : undefined,
+    };
+  }
+
+  private listCollectionIds(parent: string, request: api.ListCollectionIdsRequest): api.ListCollectionIdsResponse {
+    const ids = new Set<string>();
+    this.documents.forEach((doc, name) => {
+      if (name.startsWith(parent + '/')) ids.add(name.slice(parent.length + 1).split('/')[0]);
+    });
+    const collectionIds = [ ...ids ].sort();
+    const offset = Number(request.pageToken) || 0;
+    const pageSize = request.pageSize || collectionIds.length;
+    return {
+      collectionIds: collectionIds.slice(offset, offset + pageSize),
+      nextPageToken: offset + pageSize < collectionIds.length ? String(offset + pageSize) : undefined,
+    };
+  }
+
+  private query(parent: string, query: api.StructuredQuery): QueryResult {
+    const [ selector ] = query.from;
+    const orderBy = getOrderBy(query);
+    const scanned = [ ...this.documents.values() ].filter(doc => isInCollection(parent, selector, doc.name));
+    let docs = scanned.filter(doc =>
+      (!query.where || matches(doc, query.where))
+      // Documents without a value for an ordered field are left out
+      && orderBy.every(order => getValue(doc, order.field.fieldPath))
+    );
+    if (query.findNearest) {
+      return { docs: findNearest(docs, query.findNearest), skippedResults: 0, documentsScanned: scanned.length };
+    }
+    docs.sort((a, b) => compareDocuments(a, b, orderBy));
+
+    const { startAt, endAt } = query;
+    if (startAt) docs = docs.filter(doc => compareToCursor(doc, startAt, orderBy) >= (startAt.before ? 0 : 1));
+    if (endAt) docs = docs.filter(doc => compareToCursor(doc, endAt, orderBy) <= (endAt.before ? -1 : 0));
+
+    const offset = query.offset || 0;
+    const limit = query.limit ?? docs.length;
+    return {
+      docs: docs.slice(offset, offset + limit),
+      skippedResults: Math.min(offset, docs.length),
+      documentsScanned: scanned.length,
+    };
+  }
+
+  private readTransaction(request: ConsistencyOptions) {
+    if (request.newTransaction) return this.beginTransaction({ options: request.newTransaction }).transaction;
+    if (request.transaction && !this.transactions.has(request.transaction)) {
+      throw statusError('INVALID_ARGUMENT', 'The referenced transaction is no longer valid.');
+    }
+    return request.transaction;
+  }
+
+  private recordRead(transaction: string, name: string) {
+    const reads = this.transactions.get(transaction)?.reads;
+    if (reads && !reads.has(name)) reads.set(name, this.documents.get(name)?.updateTime || '');
+  }
+
+  private takeTransaction(id: string) {
+    const transaction = this.transactions.get(id);
+    if (!transaction) throw statusError('INVALID_ARGUMENT', 'The referenced transaction is no longer valid.');
+    this.transactions.delete(id);
+    return transaction;
+  }
+
+  // Every call returns a later time than the last, so update times are unique and usable as preconditions
+  private now(): string {
+    let time = Timestamp.now();
+    if (this.lastTime && time.valueOf() <= this.lastTime.valueOf()) {
+      const { seconds, nanoseconds } = this.lastTime;
+      time = nanoseconds + 1000 < 1e9 ? new Timestamp(seconds, nanoseconds + 1000) : new Timestamp(seconds + 1, 0);
+    }
+    this.lastTime = time;
+    return time.toISOString();
+  }
+}
+
+function statusError(status: string, message: string) {
+  return new StatusError(httpCodes[status], message, status);
+}
+
+// There are no indexes, every document in the collection is scanned. Without results only the plan is returned.
+function explainMetrics(resultsReturned?: number, documentsScanned?: number): api.ExplainMetrics {
+  const planSummary = { indexesUsed: [] as Array<Record<string, unknown>> };
+  if (resultsReturned === undefined) return { planSummary };
+  return {
+    planSummary,
+    executionStats: {
+      resultsReturned: String(resultsReturned),
+      executionDuration: '0s',
+      readOperations: String(Math.max(resultsReturned, 1)),
+      debugStats: { documents_scanned: String(documentsScanned) },
+    },
+  };
+}
+
+function applyWrite(documents: Map<string, api.Document>, write: api.Write, commitTime: string): api.WriteResult {
+  const name = write.update?.name || write.delete || write.transform?.document;
+  const current = documents.get(name);
+  checkPrecondition(name, current, write.currentDocument);
+
+  if (write.delete) {
+    documents.delete(name);
+    return { updateTime: commitTime };
+  }
+
+  let fields: api.MapValue;
+  if (write.update && !write.updateMask) {
+    fields = structuredClone(write.update.fields || {});
+  } else {
+    fields = structuredClone(current?.fields || {});
+    write.updateMask?.fieldPaths.forEach(fieldPath => {
+      const segments = FieldPath.from(fieldPath).segments;
+      const value = getField(write.update.fields, segments);
+      if (value) setField(fields, segments, structuredClone(value));
+      else deleteField(fields, segments);
+    });
+  }
+  const transforms = write.updateTransforms || write.transform?.fieldTransforms || [];
+  const transformResults = transforms.map(transform => applyTransform(fields, transform, commitTime));
+
+  documents.set(name, { name, fields, createTime: current?.createTime || commitTime, updateTime: commitTime });
+  return { updateTime: commitTime, transformResults: transformResults.length ? transformResults : undefined };
+}
+
+function checkPrecondition(name: string, current: api.Document, precondition: api.Precondition) {
+  if (precondition?.exists === true && !current) {
+    throw statusError('NOT_FOUND', `No document to update: ${name}`);
+  }
+  if (precondition?.exists === false && current) {
+    throw statusError('ALREADY_EXISTS', `Document already exists: ${name}`);
+  }
+  if (precondition?.updateTime) {
+    const updateTime = Timestamp.fromString(precondition.updateTime);
+    if (!current || !updateTime.isEqual(Timestamp.fromString(current.updateTime))) {
+      throw statusError('FAILED_PRECONDITION', `The document was updated since ${precondition.updateTime}: ${name}`);
+    }
+  }
+}
+
+function applyTransform(fields: api.MapValue, transform: api.FieldTransform, commitTime: string): api.Value {
+  const segments = FieldPath.from(transform.fieldPath).segments;
+  const current = getField(fields, segments);
+  let value: api.Value;
+  if (transform.setToServerValue) {
+    value = { timestampValue: commitTime };
+  } else if (transform.increment) {
+    value = isNumber(current) ? addNumbers(current, transform.increment) : transform.increment;
+  } else if (transform.maximum) {
+    value = isNumber(current) && compareValues(current, transform.maximum) >= 0 ? current : transform.maximum;
+  } else if (transform.minimum) {
+    value = isNumber(current) && compareValues(current, transform.minimum) <= 0 ? current : transform.minimum;
+  } else if (transform.appendMissingElements) {
+    const values = [ ...(current?.arrayValue?.values || []) ];
+    transform.appendMissingElements.values?.forEach(element => {
+      if (!values.some(existing => compareValues(existing, element) === 0)) values.push(element);
+    });
+    value = { arrayValue: { values } };
+  } else if (transform.removeAllFromArray) {
+    const remove = transform.removeAllFromArray.values || [];
+    const values = (current?.arrayValue?.values || []).filter(existing =>
+      !remove.some(element => compareValues(existing, element) === 0));
+    value = { arrayValue: { values } };
+  }
+  setField(fields, segments, value);
+  return value;
+}
+
+// Integers are added as 64-bit integers, clamped to their range, unless either operand is a double
+function addNumbers(a: api.Value, b: api.Value): api.Value {
+  if ('integerValue' in a && 'integerValue' in b) {
+    const sum = BigInt(a.integerValue) + BigInt(b.integerValue);
+    return { integerValue: String(sum > maxInteger ? maxInteger : sum < minInteger ? minInteger : sum) };
+  }
+  return { doubleValue: Number(a.integerValue ?? a.doubleValue) + Number(b.integerValue ?? b.doubleValue) };
+}
+
+function isNumber(value: api.Value) {
+  return !!value && ('integerValue' in value || 'doubleValue' in value);
+}
+
+function getField(fields: api.MapValue, segments: string[]): api.Value {
+  let value: api.Value = { mapValue: { fields } };
+  for (const segment of segments) {
+    value = value?.mapValue?.fields?.[segment];
+  }
+  return value;
+}
+
+function setField(fields: api.MapValue, segments: string[], value: api.Value) {
+  const last = segments[segments.length - 1];
+  segments.slice(0, -1).forEach(segment => {
+    if (!fields[segment]?.mapValue) fields[segment] = { mapValue: { fields: {} } };
+    const map = fields[segment].mapValue;
+    fields = map.fields || (map.fields = {});
+  });
+  fields[last] = value;
+}
+
+function deleteField(fields: api.MapValue, segments: string[]) {
+  const parent = getField(fields, segments.slice(0, -1));
+  if (parent?.mapValue?.fields) delete parent.mapValue.fields[segments[segments.length - 1]];
+}
+
+// A document with only the given fields, or all fields when none are given
+function project(doc: api.Document, fieldPaths?: string[]): api.Document {
+  if (!fieldPaths) return doc;
+  const fields: api.MapValue = {};
+  fieldPaths.forEach(fieldPath => {
+    if (fieldPath === documentId) return;
+    const segments = FieldPath.from(fieldPath).segments;
+    const value = getField(doc.fields, segments);
+    if (value) setField(fields, segments, value);
+  });
+  return { ...doc, fields };
+}
+
+function getValue(doc: api.Document, fieldPath: string): api.Value {
+  if (fieldPath === documentId) return { referenceValue: doc.name };
+  return getField(doc.fields, FieldPath.from(fieldPath).segments);
+}
+
+// Documents without a vector of the same length as the query vector are left out
+function findNearest(docs: api.Document[], options: api.FindNearest): api.Document[] {
+  const { vectorField, queryVector, distanceMeasure, limit, distanceResultField, distanceThreshold } = options;
+  const target = vectorValues(queryVector);
+  const measure = distanceMeasures[distanceMeasure];
+  // Dot product is a similarity, so larger values are nearer
+  const nearer = distanceMeasure === 'DOT_PRODUCT' ? (a: number, b: number) => b - a : (a: number, b: number) => a - b;
+  const results: Array<{ doc: api.Document, distance: number }> = [];
+  docs.forEach(doc => {
+    const value = getValue(doc, vectorField.fieldPath);
+    const vector = value && isVector(value) ? vectorValues(value) : [];
+    if (vector.length !== target.length) return;
+    const distance = measure(vector, target);
+    if (distanceThreshold === undefined || nearer(distance, distanceThreshold) <= 0) results.push({ doc, distance });
+  });
+  return results.sort((a, b) => nearer(a.distance, b.distance)).slice(0, limit).map(({ doc, distance }) => {
+    if (!distanceResultField) return doc;
+    const fields = structuredClone(doc.fields || {});
+    setField(fields, FieldPath.from(distanceResultField).segments, { doubleValue: distance });
+    return { ...doc, fields };
+  });
+}
+
+function dotProduct(a: number[], b: number[]) {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function isInCollection(parent: string, selector: api.CollectionSelector, name: string) {
+  if (!name.startsWith(parent + '/')) return false;
+  const segments = name.slice(parent.length + 1).split('/');
+  if (selector.allDescendants) {
+    return !selector.collectionId || segments[segments.length - 2] === selector.collectionId;
+  }
+  return segments.length === 2 && segments[0] === selector.collectionId;
+}
+
+function matches(doc: api.Document, filter: api.Filter): boolean {
+  if (filter.compositeFilter) {
+    const { op, filters = [] } = filter.compositeFilter;
+    return op === 'OR' ? filters.some(f => matches(doc, f)) : filters.every(f => matches(doc, f));
+  }
+
+  if (filter.unaryFilter) {
+    const value = getValue(doc, filter.unaryFilter.field.fieldPath);
+    if (!value) return false;
+    switch (filter.unaryFilter.op) {
+      case 'IS_NULL': return 'nullValue' in value;
+      case 'IS_NOT_NULL': return !('nullValue' in value);
+      case 'IS_NAN': return isNaNValue(value);
+      case 'IS_NOT_NAN': return !isNaNValue(value);
+    }
+    return false;
+  }
+
+  const { field, op, value: operand } = filter.fieldFilter;
+  const value = getValue(doc, field.fieldPath);
+  if (!value) return false;
+  const equals = (a: api.Value, b: api.Value) => compareValues(a, b) === 0;
+  if (rangeOperators.has(op)) {
+    // Range filters only match values of the same type, and never NaN
+    if (typeOrder(value) !== typeOrder(operand) || isNaNValue(value) || isNaNValue(operand)) return false;
+  }
+  switch (op) {
+    case 'LESS_THAN': return compareValues(value, operand) < 0;
+    case 'LESS_THAN_OR_EQUAL': return compareValues(value, operand) <= 0;
+    case 'GREATER_THAN': return compareValues(value, operand) > 0;
+    case 'GREATER_THAN_OR_EQUAL': return compareValues(value, operand) >= 0;
+    case 'EQUAL': return equals(value, operand);
+    case 'NOT_EQUAL': return !equals(value, operand);
+    case 'ARRAY_CONTAINS': return !!value.arrayValue?.values?.some(element => equals(element, operand));
+    case 'IN': return !!operand.arrayValue?.values?.some(option => equals(value, option));
+    case 'NOT_IN': return !operand.arrayValue?.values?.some(option => equals(value, option));
+    case 'ARRAY_CONTAINS_ANY': return !!value.arrayValue?.values?.some(element =>
+      operand.arrayValue?.values?.some(option => equals(element, option)));
+  }
+  return false;
+}
+
+// The query's ordering, followed by any fields with inequality filters and then the document name, as the API does
+function getOrderBy(query: api.StructuredQuery): api.StructuredQueryOrder[] {
+  const orderBy = [ ...(query.orderBy || []) ];
+  const ordered = new Set(orderBy.map(order => FieldPath.from(order.field.fieldPath).toString()));
+  const inequalityFields = new Set<string>();
+  const collect = (filter: api.Filter) => {
+    filter.compositeFilter?.filters?.forEach(collect);
+    const { field, op } = filter.fieldFilter || filter.unaryFilter || {};
+    if (inequalityOperators.has(op)) inequalityFields.add(FieldPath.from(field.fieldPath).toString());
+  };
+  if (query.where) collect(query.where);
+  [ ...inequalityFields ].sort().forEach(fieldPath => {
+    if (!ordered.has(fieldPath)) orderBy.push({ field: { fieldPath }, direction: 'ASCENDING' });
+  });
+  return ordered.has(documentId) ? orderBy : withNameOrder(orderBy);
+}
+
+// Ties are broken by document name, in the direction of the last ordering
+function withNameOrder(orderBy: api.StructuredQueryOrder[]): api.StructuredQueryOrder[] {
+  const direction = orderBy[orderBy.length - 1]?.direction || 'ASCENDING';
+  return [ ...orderBy, { field: { fieldPath: documentId }, direction } ];
+}
+
+function compareDocuments(a: api.Document, b: api.Document, orderBy: api.StructuredQueryOrder[]) {
+  for (const { field, direction } of orderBy) {
+    const valueA = getValue(a, field.fieldPath);
+    const valueB = getValue(b, field.fieldPath);
+    // Missing values only occur when listing documents, and sort first
+    const result = valueA && valueB ? compareValues(valueA, valueB) : Number(!!valueA) - Number(!!valueB);
+    if (result) return direction === 'DESCENDING' ? -result : result;
+  }
+  return 0;
+}
+
+function compareToCursor(doc: api.Document, cursor: api.Cursor, orderBy: api.StructuredQueryOrder[]) {
+  for (let i = 0; i < cursor.values.length && i < orderBy.length; i++) {
+    const { field, direction } = orderBy[i];
+    const result = compareValues(getValue(doc, field.fieldPath), cursor.values[i]);
+    if (result) return direction === 'DESCENDING' ? -result : result;
+  }
+  return 0;
+}
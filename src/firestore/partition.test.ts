@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { FieldPath } from './field-path';
+import type { Firestore } from './firestore';
+import { MemoryBackend } from './memory-backend';
+import { QueryPartition } from './partition';
+import type { Query } from './reference';
+
+let firestore: Firestore;
+
+beforeEach(async () => {
+  const backend = new MemoryBackend();
+  firestore = new App({ projectId: 'test', getToken: async () => 'token', fetch: backend.fetch }, 'key').firestore();
+  const batch = firestore.batch();
+  for (let i = 0; i < 10; i++) {
+    batch.set(firestore.doc(`users/user${i}`), { index: i, even: i % 2 === 0 });
+    batch.set(firestore.doc(`teams/team${i}/users/member${i}`), { index: i, even: i % 2 === 0 });
+  }
+  await batch.commit();
+});
+
+async function partitionIds(partitions: Array<QueryPartition>) {
+  return Promise.all(partitions.map(async partition => {
+    const snapshot = await partition.toQuery().get();
+    return snapshot.docs.map(doc => doc.ref.id);
+  }));
+}
+
+
+describe('getPartitions', () => {
+  it('splits a collection into partitions which cover every document once', async () => {
+    const partitions = await firestore.collection('users').getPartitions(5);
+    expect(partitions.length).toBeGreaterThan(1);
+    expect(partitions[0].startAt).toBeUndefined();
+    expect(partitions[partitions.length - 1].endBefore).toBeUndefined();
+    const ids = await partitionIds(partitions);
+    expect(ids.flat()).toEqual([ ...Array(10).keys() ].map(i => `user${i}`));
+    expect(ids.every(partition => partition.length)).toBe(true);
+  });
+
+  it('leaves out boundaries from collections elsewhere with the same id', async () => {
+    const partitions = await firestore.collection('users').getPartitions(5);
+    for (const partition of partitions) {
+      for (const ref of [ partition.startAt, partition.endBefore ]) {
+        if (ref) expect(ref.path).toMatch(/^users\/user\d$/);
+      }
+    }
+  });
+
+  it('leaves out boundaries from nested collections with the same id', async () => {
+    const batch = firestore.batch();
+    for (let i = 0; i < 10; i++) batch.set(firestore.doc(`users/user5/users/nested${i}`), { index: i });
+    await batch.commit();
+    const partitions = await firestore.collection('users').getPartitions(10);
+    const boundaries = partitions.slice(1).map(partition => partition.startAt.path);
+    expect(boundaries.length).toBeGreaterThan(0);
+    expect(boundaries.every(path => /^users\/user\d$/.test(path))).toBe(true);
+    expect((await partitionIds(partitions)).flat()).toEqual([ ...Array(10).keys() ].map(i => `user${i}`));
+  });
+
+  it('splits collection groups', async () => {
+    const partitions = await firestore.collectionGroup('users').getPartitions(4);
+    expect((await partitionIds(partitions)).flat()).toHaveLength(20);
+  });
+
+  it('keeps the query filters in each partition', async () => {
+    const partitions = await firestore.collection('users').where('even', '==', true).getPartitions(3);
+    expect((await partitionIds(partitions)).flat()).toEqual([ 'user0', 'user2', 'user4', 'user6', 'user8' ]);
+  });
+
+  it('returns one partition for the whole query when one is desired', async () => {
+    const partitions = await firestore.collection('users').getPartitions(1);
+    expect(partitions).toHaveLength(1);
+    expect((await partitionIds(partitions))[0]).toHaveLength(10);
+  });
+
+  it('rejects queries which are ordered, limited or have cursors', async () => {
+    const users = firestore.collection('users');
+    const byId = users.orderBy(FieldPath.documentId());
+    const queries: Query[] = [ users.orderBy('index'), users.limit(1), users.offset(1), byId.startAt('user1') ];
+    for (const query of queries) {
+      await expect(query.getPartitions(2)).rejects.toThrow('getPartitions() cannot be used with orderBy()');
+    }
+    await expect(users.getPartitions(0)).rejects.toThrow('The desired partition count must be at least 1.');
+  });
+});
+
+
+describe('QueryPartition', () => {
+  it('round-trips through JSON', async () => {
+    const [ , second ] = await firestore.collection('users').where('even', '==', true).getPartitions(2);
+    const partition = QueryPartition.fromJSON(firestore, JSON.parse(JSON.stringify(second)));
+    expect(partition.startAt.path).toBe(second.startAt.path);
+    expect(partition.endBefore).toBeUndefined();
+    expect(await partitionIds([ partition ])).toEqual(await partitionIds([ second ]));
+  });
+});
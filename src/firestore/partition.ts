@@ -0,0 +1,50 @@
+import { FieldPath, isDocumentId } from './field-path';
+import { Firestore } from './firestore';
+import { DocumentReference, Query } from './reference';
+import { queryOptionsSymbol } from './symbols';
+import type { DocumentData, QueryPartitionData } from './types';
+
+
+/**
+ * A range of documents within a query, returned by `Query.getPartitions()`. Each partition starts at the document its
+ * previous partition ends before, so together they cover the query's results exactly once and can be run in parallel.
+ *
+ * Partitions can be passed between Workers, e.g. in Queue messages, as `JSON.stringify(partition)` and turned back into
+ * a partition with `QueryPartition.fromJSON()`.
+ */
+export class QueryPartition<T = DocumentData> {
+  static fromJSON(firestore: Firestore, data: QueryPartitionData): QueryPartition {
+    return new QueryPartition(
+      Query.fromJSON(firestore, data),
+      data.startAt ? new DocumentReference(firestore, data.startAt) : undefined,
+      data.endBefore ? new DocumentReference(firestore, data.endBefore) : undefined,
+    );
+  }
+
+  constructor(
+    readonly query: Query<T>,
+    readonly startAt: DocumentReference<unknown> | undefined,
+    readonly endBefore: DocumentReference<unknown> | undefined,
+  ) {}
+
+  /**
+   * Returns the query for the documents in this partition, ordered by document name.
+   */
+  toQuery(): Query<T> {
+    let query = this.query;
+    if (!query[queryOptionsSymbol]().orderBy.some(order => isDocumentId(order.field.fieldPath))) {
+      query = query.orderBy(FieldPath.documentId());
+    }
+    if (this.startAt) query = query.startAt(this.startAt);
+    if (this.endBefore) query = query.endBefore(this.endBefore);
+    return query;
+  }
+
+  toJSON(): QueryPartitionData {
+    return {
+      ...this.query.toJSON(),
+      startAt: this.startAt?.path,
+      endBefore: this.endBefore?.path,
+    };
+  }
+}
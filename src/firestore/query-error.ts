@@ -0,0 +1,26 @@
+import { StatusError } from '../status-error';
+import type { api } from './types';
+
+// Missing index errors end with a link which creates the index in the Firebase console
+const indexUrlPattern = /https:\/\/console\.firebase\.google\.com\/\S+/;
+
+
+/**
+ * The error a query is rejected with when it needs a composite index which doesn't exist yet. Open `indexUrl` to
+ * create the index, which may take a few minutes to build.
+ */
+export class MissingIndexError extends StatusError {
+
+  constructor(code: number, message: string, status: string, readonly indexUrl: string) {
+    super(code, message, status);
+  }
+}
+
+/**
+ * Converts an error returned for a query to a StatusError, or a MissingIndexError when it links to a missing index.
+ */
+export function queryError(error: api.Status | StatusError): StatusError {
+  const { code, message, status } = error;
+  const indexUrl = message?.match(indexUrlPattern)?.[0];
+  return indexUrl ? new MissingIndexError(code, message, status, indexUrl) : new StatusError(code, message, status);
+}
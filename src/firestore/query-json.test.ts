@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from '../app';
+import type { Firestore } from './firestore';
+import { MemoryBackend } from './memory-backend';
+import { Query } from './reference';
+import { structuredQuerySymbol } from './symbols';
+
+let firestore: Firestore;
+
+beforeEach(async () => {
+  firestore = new App({ projectId: 'test', getToken: async () => 'token', fetch: new MemoryBackend().fetch }, 'key')
+    .firestore();
+  const batch = firestore.batch();
+  [ 'ada', 'alan', 'grace', 'linus', 'margaret' ].forEach((id, i) => {
+    batch.set(firestore.doc(`users/${id}`), { name: id, age: 30 + i * 10, active: i !== 2 });
+  });
+  await batch.commit();
+});
+
+function ids(snapshot: { docs: Array<{ ref: { id: string } }> }) {
+  return snapshot.docs.map(doc => doc.ref.id);
+}
+
+
+describe('Query.toJSON and Query.fromJSON', () => {
+  it('round-trips a query through JSON', async () => {
+    const query = firestore.collection('users').where('active', '==', true).orderBy('age', 'desc').limit(2);
+    const copy = Query.fromJSON(firestore, JSON.parse(JSON.stringify(query)));
+    expect(copy.ref.path).toBe('users');
+    expect(copy[structuredQuerySymbol]()).toEqual(query[structuredQuerySymbol]());
+    expect(ids(await copy.get())).toEqual([ 'margaret', 'linus' ]);
+  });
+
+  it('round-trips subcollection and collection group queries', () => {
+    const posts = firestore.collection('users/ada/posts').where('draft', '==', false);
+    expect(Query.fromJSON(firestore, posts.toJSON()).ref.qualifiedPath).toBe(posts.ref.qualifiedPath);
+    const group = firestore.collectionGroup('posts');
+    expect(Query.fromJSON(firestore, JSON.parse(JSON.stringify(group)))[structuredQuerySymbol]().from)
+      .toEqual([{ collectionId: 'posts', allDescendants: true }]);
+  });
+
+  it('returns a copy which does not change the query', () => {
+    const query = firestore.collection('users').where('active', '==', true).orderBy('age');
+    const data = query.toJSON();
+    data.query.filters.length = 0;
+    data.query.orderBy.push({ field: { fieldPath: 'name' } });
+    expect(query.toJSON().query.filters).toHaveLength(1);
+    expect(query.toJSON().query.orderBy).toHaveLength(1);
+  });
+
+  it('rejects data which is not a query', () => {
+    expect(() => Query.fromJSON(firestore, null)).toThrow('Invalid query data.');
+    expect(() => Query.fromJSON(firestore, { path: 'users' } as any)).toThrow(
+      'Invalid query data. Expected an object with a `path` string and a `query` object.'
+    );
+  });
+
+  it('rejects queries with missing or malformed parts', () => {
+    const { path, query } = firestore.collection('users').orderBy('age').limit(2).toJSON();
+    const fromJSON = (changes: object) => () => Query.fromJSON(firestore, { path, query: { ...query, ...changes } });
+    expect(fromJSON({ from: undefined })).toThrow("The query's `from` must hold one collection selector.");
+    expect(fromJSON({ filters: 'active' })).toThrow("The query's `filters` must be an array of filters.");
+    expect(fromJSON({ orderBy: [ 'age' ] })).toThrow("The query's `orderBy` must be an array of field orders.");
+    expect(fromJSON({ startAt: [ 1 ] })).toThrow('`startAt` and `endAt` must have a `values` array');
+    expect(fromJSON({ limit: -1, reverse: false })).toThrow(
+      "The query's `offset` and `limit` must be non-negative integers, `reverse` must be true when set."
+    );
+    expect(fromJSON({})).not.toThrow();
+  });
+});
+
+
+describe('page tokens', () => {
+  it('pages through results with tokens', async () => {
+    const query = firestore.collection('users').orderBy('age').limit(2);
+    const pages: string[][] = [];
+    let pageToken: string | null = undefined;
+    do {
+      const snapshot = await (pageToken ? query.startAfterPageToken(pageToken) : query).get();
+      pages.push(ids(snapshot));
+      pageToken = snapshot.nextPageToken();
+      if (pageToken) expect(pageToken).toMatch(/^[\w-]+$/);
+    } while (pageToken);
+    expect(pages).toEqual([ [ 'ada', 'alan' ], [ 'grace', 'linus' ], [ 'margaret' ] ]);
+  });
+
+  it('keeps working after the query is passed through JSON', async () => {
+    const query = firestore.collection('users').where('active', '==', true).orderBy('age').limit(2);
+    const token = (await query.get()).nextPageToken();
+    const copy = Query.fromJSON(firestore, JSON.parse(JSON.stringify(query)));
+    expect(ids(await copy.startAfterPageToken(token).get())).toEqual([ 'linus', 'margaret' ]);
+  });
+
+  it('encodes large cursor values', async () => {
+    const bio = 'ü'.repeat(500000);
+    await firestore.doc('users/ada').update({ bio });
+    const query = firestore.collection('users').orderBy('bio').limit(1);
+    const token = (await query.get()).nextPageToken();
+    expect(token).toMatch(/^[\w-]+$/);
+    expect(query.startAfterPageToken(token)[structuredQuerySymbol]().startAt.values[0]).toEqual({ stringValue: bio });
+  });
+
+  it('returns no token without a limit or after the last page', async () => {
+    expect((await firestore.collection('users').get()).nextPageToken()).toBeNull();
+    expect((await firestore.collection('users').limit(10).get()).nextPageToken()).toBeNull();
+  });
+
+  it('rejects invalid tokens and tokens for other queries', async () => {
+    const users = firestore.collection('users');
+    const token = (await users.orderBy('age').limit(2).get()).nextPageToken();
+    expect(() => users.startAfterPageToken('not a token!')).toThrow('Invalid page token.');
+    expect(() => users.orderBy('age').orderBy('name').startAfterPageToken(token))
+      .toThrow('Invalid page token for this query.');
+  });
+
+  it('rejects limitToLast() queries', async () => {
+    const snapshot = await firestore.collection('users').orderBy('age').limitToLast(2).get();
+    expect(() => snapshot.nextPageToken()).toThrow('limitToLast() queries cannot be paged');
+  });
+});
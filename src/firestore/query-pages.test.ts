@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { structuredQuerySymbol } from './symbols';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const readTime = '2024-05-01T12:00:00Z';
+let requests: Array<{ url: URL, body: any }>;
+let responses: any[];
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    requests.push({ url: new URL(input), body: JSON.parse(init.body as string) });
+    return new Response(JSON.stringify(responses.shift()));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A runQuery response with a document for each id, whose `n` field is its position in the results
+function page(...ids: string[]) {
+  if (!ids.length) return [{ readTime }];
+  return ids.map(id => ({
+    document: {
+      name: `${basePath}/items/${id}`,
+      fields: { n: { integerValue: id } },
+      createTime: readTime,
+      updateTime: readTime,
+    },
+    readTime,
+  }));
+}
+
+
+describe('Query.pages', () => {
+  it('fetches pages using the last document of each page as the cursor', async () => {
+    responses.push(page('1', '2'), page('3', '4'), page('5'));
+    const pages = [];
+    for await (const snapshot of firestore.collection('items').orderBy('n').pages({ pageSize: 2 })) {
+      pages.push(snapshot.docs.map(doc => doc.ref.id));
+    }
+
+    expect(pages).toEqual([ [ '1', '2' ], [ '3', '4' ], [ '5' ] ]);
+    expect(requests.map(request => request.body.structuredQuery.limit)).toEqual([ 2, 2, 2 ]);
+    expect(requests[0].body.structuredQuery.startAt).toBeUndefined();
+    expect(requests[1].body.structuredQuery.startAt).toEqual({
+      values: [{ integerValue: '2' }, { referenceValue: `${basePath}/items/2` }],
+      before: false,
+    });
+  });
+
+  it('stops after an empty page', async () => {
+    responses.push(page('1', '2'), page());
+    const pages = [];
+    for await (const snapshot of firestore.collection('items').pages({ pageSize: 2 })) pages.push(snapshot);
+    expect(pages).toHaveLength(1);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('respects the query limit and applies the offset only to the first page', async () => {
+    responses.push(page('1', '2'), page('3'));
+    const query = firestore.collection('items').orderBy('n').offset(5).limit(3);
+    const ids = [];
+    for await (const doc of query.stream({ pageSize: 2 })) ids.push(doc.ref.id);
+
+    expect(ids).toEqual([ '1', '2', '3' ]);
+    expect(requests.map(request => request.body.structuredQuery.limit)).toEqual([ 2, 1 ]);
+    expect(requests.map(request => request.body.structuredQuery.offset)).toEqual([ 5, undefined ]);
+  });
+
+  it('rejects limitToLast() queries', async () => {
+    const pages = firestore.collection('items').orderBy('n').limitToLast(2).pages();
+    await expect(pages.next()).rejects.toThrow('limitToLast() queries cannot be paged');
+  });
+});
+
+
+describe('Query.stream', () => {
+  it('yields each document across pages', async () => {
+    responses.push(page('1', '2'), page('3'));
+    const ids = [];
+    for await (const doc of firestore.collection('items').stream({ pageSize: 2 })) ids.push(doc.ref.id);
+    expect(ids).toEqual([ '1', '2', '3' ]);
+  });
+
+  it('stops fetching when the caller stops iterating', async () => {
+    responses.push(page('1', '2'), page('3', '4'));
+    for await (const doc of firestore.collection('items').stream({ pageSize: 2 })) {
+      if (doc.ref.id === '1') break;
+    }
+    expect(requests).toHaveLength(1);
+  });
+});
+
+
+describe('cursors', () => {
+  it('treats document ids in collection group cursors as full paths', () => {
+    const query = firestore.collectionGroup('comments').orderBy('__name__').startAfter('posts/a/comments/1');
+    expect(query[structuredQuerySymbol]().startAt.values).toEqual([{ referenceValue: `${basePath}/posts/a/comments/1` }]);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { StatusError } from '../status-error';
+import { DocumentSnapshot } from './document';
+import { FieldPath } from './field-path';
+import { Filter } from './filter';
+import { MissingIndexError, queryError } from './query-error';
+import { structuredQuerySymbol } from './symbols';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const users = firestore.collection('users');
+const indexUrl = 'https://console.firebase.google.com/v1/r/project/test/firestore/indexes?create_composite=abc';
+const values = (count: number) => [ ...Array(count).keys() ];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+
+describe('filter validation', () => {
+  it('rejects unknown operators', () => {
+    expect(() => users.where('age', '=>' as any, 1)).toThrow("'=>' is not a valid operator, on 'age'");
+  });
+
+  it('requires non-empty arrays for list operators', () => {
+    expect(() => users.where('age', 'in', [])).toThrow("'in' filters require a non-empty array, on 'age'");
+    expect(() => users.where('age', 'not-in', 1)).toThrow("'not-in' filters require a non-empty array");
+    expect(() => users.where('tags', 'array-contains-any', [])).toThrow('require a non-empty array');
+  });
+
+  it('limits the number of values in list filters', () => {
+    expect(() => users.where('age', 'in', values(30))).not.toThrow();
+    expect(() => users.where('age', 'in', values(31))).toThrow("'in' filters support up to 30 values");
+    expect(() => users.where('age', 'not-in', values(10))).not.toThrow();
+    expect(() => users.where('age', 'not-in', values(11))).toThrow("'not-in' filters support up to 10 values");
+  });
+
+  it('only compares null and NaN for equality', () => {
+    expect(() => users.where('age', '==', null)).not.toThrow();
+    expect(() => users.where('age', '!=', NaN)).not.toThrow();
+    expect(() => users.where('age', '>', null)).toThrow("Null and NaN can only be compared with '==' and '!='");
+    expect(() => users.where('age', '<', NaN)).toThrow("Null and NaN can only be compared with '==' and '!='");
+  });
+
+  it('requires ids or references in document id filters', () => {
+    expect(() => users.where('__name__', '==', 'ada')).not.toThrow();
+    expect(() => users.where('__name__', 'in', [ firestore.doc('users/alan') ])).not.toThrow();
+    expect(() => users.where('__name__', '==', 1)).toThrow('require document ids or DocumentReferences');
+    expect(() => users.where('__name__', 'in', [ 'ada', 1 ])).toThrow('require document ids or DocumentReferences');
+  });
+
+  it('rejects document ids containing a slash in collection queries', () => {
+    expect(() => users.where('__name__', '==', 'ada/posts/1')).toThrow(
+      "Invalid document id 'ada/posts/1' in a query on 'users', it must not contain '/'."
+    );
+    expect(() => firestore.collectionGroup('posts').where('__name__', '==', 'users/ada/posts/1')).not.toThrow();
+  });
+
+  it('allows only one not-in filter, without != filters', () => {
+    const query = users.where('age', 'not-in', [ 1 ]);
+    expect(() => query.where('name', 'not-in', [ 'Ada' ])).toThrow("A query can have only one 'not-in' filter.");
+    expect(() => query.where('name', '!=', 'Ada')).toThrow("A 'not-in' filter can't be combined with a '!=' filter.");
+  });
+
+  it('rejects not-in filters combined with in, array-contains-any or or filters', () => {
+    const message = "A 'not-in' filter can't be combined with 'in', 'array-contains-any' or 'or' filters.";
+    const query = users.where('age', 'not-in', [ 1 ]);
+    expect(() => query.where('name', 'in', [ 'Ada' ])).toThrow(message);
+    expect(() => query.where('tags', 'array-contains-any', [ 'a' ])).toThrow(message);
+    expect(() => query.where(Filter.or(Filter.where('a', '==', 1), Filter.where('b', '==', 2)))).toThrow(message);
+  });
+
+  it('limits the disjunctions the filters expand to', () => {
+    const or = Filter.or(Filter.where('a', '==', 1), Filter.where('b', '==', 2), Filter.where('c', '==', 3));
+    expect(() => users.where(or).where('age', 'in', values(10))).not.toThrow();
+    expect(() => users.where(or).where('age', 'in', values(11))).toThrow(
+      'The filters expand to 33 disjunctions, but Firestore allows up to 30.'
+    );
+    const nested = Filter.or(Filter.and(Filter.where('a', 'in', values(28)), Filter.where('b', '==', 1)), or);
+    expect(() => users.where(nested)).toThrow('The filters expand to 31 disjunctions');
+  });
+});
+
+
+describe('cursor validation', () => {
+  it('accepts values only for the orderBy() fields', () => {
+    expect(users.orderBy('age').startAt(36)[structuredQuerySymbol]().startAt.values).toEqual([{ integerValue: '36' }]);
+    expect(() => users.orderBy('age').startAt(36, 'ada')).toThrow('Too many cursor values specified.');
+    expect(() => users.where('age', '>', 30).startAt(36)).toThrow('Too many cursor values specified.');
+  });
+
+  it('still fills in the implicit document id from snapshots', () => {
+    const ada = firestore.doc('users/ada');
+    const snapshot = new DocumentSnapshot(ada, { name: ada.qualifiedPath, fields: { age: { integerValue: '36' } } });
+    expect(users.orderBy('age').startAfter(snapshot)[structuredQuerySymbol]().startAt.values).toEqual([
+      { integerValue: '36' }, { referenceValue: ada.qualifiedPath },
+    ]);
+  });
+
+  it('requires document ids or references for the document id', () => {
+    const byId = users.orderBy('age').orderBy(FieldPath.documentId());
+    expect(byId.startAt(36, 'ada')[structuredQuerySymbol]().startAt.values[1]).toEqual({
+      referenceValue: 'projects/test/databases/(default)/documents/users/ada',
+    });
+    expect(() => byId.startAt(36, firestore.doc('users/ada'))).not.toThrow();
+    expect(() => byId.startAt(36, 2)).toThrow(
+      'A cursor value for the document id must be a document id or a DocumentReference.'
+    );
+  });
+
+  it('rejects limitToLast() without an orderBy() when it is called', () => {
+    expect(() => users.limitToLast(2)).toThrow(
+      'limitToLast() queries require specifying at least one orderBy() clause.'
+    );
+    expect(() => users.orderBy('age').limitToLast(2)).not.toThrow();
+  });
+});
+
+
+describe('MissingIndexError', () => {
+  const message = `The query requires an index. You can create it here: ${indexUrl}`;
+
+  it('is created for errors which link to a missing index', () => {
+    const error = queryError({ code: 400, message, status: 'FAILED_PRECONDITION' });
+    expect(error).toBeInstanceOf(MissingIndexError);
+    expect(error).toBeInstanceOf(StatusError);
+    expect(error).toMatchObject({ code: 400, status: 'FAILED_PRECONDITION', message, indexUrl });
+  });
+
+  it('is not created for other errors', () => {
+    const error = queryError(new StatusError(403, 'Permission denied', 'PERMISSION_DENIED'));
+    expect(error).not.toBeInstanceOf(MissingIndexError);
+    expect(error).toMatchObject({ code: 403, status: 'PERMISSION_DENIED', message: 'Permission denied' });
+  });
+
+  it('rejects queries and aggregations which need an index', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({
+      error: { code: 400, message, status: 'FAILED_PRECONDITION' },
+    })));
+    const query = users.where('age', '>', 30).orderBy('name');
+    await expect(query.get()).rejects.toMatchObject({ indexUrl });
+    await expect(query.count().get()).rejects.toBeInstanceOf(MissingIndexError);
+  });
+
+  it('is created for errors returned within query results', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify([
+      { error: { code: 9, message, status: 'FAILED_PRECONDITION' } },
+    ])));
+    await expect(users.where('age', '>', 30).orderBy('name').get()).rejects.toMatchObject({ code: 9, indexUrl });
+  });
+});
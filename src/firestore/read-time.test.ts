@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { DocumentReference } from './reference';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const readTime = new Date('2024-05-01T12:00:00Z');
+const document = { name: `${basePath}/users/ada`, fields: { name: { stringValue: 'Ada' } } };
+let requests: Array<{ url: URL, body: any }>;
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    requests.push({ url, body: init.body ? JSON.parse(init.body as string) : undefined });
+    let data: object;
+    if (url.pathname.endsWith(':batchGet')) data = [{ found: document, readTime: readTime.toISOString() }];
+    else if (url.pathname.endsWith(':runQuery')) data = [{ document, readTime: readTime.toISOString() }];
+    else if (url.pathname.endsWith(':runAggregationQuery')) {
+      data = [{ result: { aggregateFields: { count: { integerValue: '1' } } }, readTime: readTime.toISOString() }];
+    } else data = { documents: [ document ] };
+    return new Response(JSON.stringify(data));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+
+describe('readTime', () => {
+  it('reads documents at the given time', async () => {
+    await firestore.doc('users/ada').get({ readTime });
+    expect(requests[0].body).toEqual({ documents: [ document.name ], readTime: '2024-05-01T12:00:00.000Z' });
+  });
+
+  it('reads selected fields at the given time', async () => {
+    await firestore.doc('users/ada').get([ 'name' ], { readTime });
+    expect(requests[0].body).toMatchObject({ mask: { fieldPaths: [ 'name' ] }, readTime: '2024-05-01T12:00:00.000Z' });
+  });
+
+  it('reads selected fields without options', async () => {
+    const snapshot = await firestore.doc('users/ada').get([ 'name' ]);
+    expect(requests[0].body.mask).toEqual({ fieldPaths: [ 'name' ] });
+    expect(requests[0].body.readTime).toBeUndefined();
+    expect(snapshot.get('name')).toBe('Ada');
+  });
+
+  it('reads batches of documents at the given time', async () => {
+    await firestore.batchGet([ firestore.doc('users/ada') ], undefined, { readTime });
+    expect(requests[0].body.readTime).toBe('2024-05-01T12:00:00.000Z');
+  });
+
+  it('runs queries and aggregations at the given time', async () => {
+    const query = firestore.collection('users').where('name', '==', 'Ada');
+    await query.get({ readTime });
+    await query.count().get({ readTime });
+    expect(requests.map(request => request.body.readTime)).toEqual([
+      '2024-05-01T12:00:00.000Z', '2024-05-01T12:00:00.000Z',
+    ]);
+  });
+
+  it('reads every page at the same time', async () => {
+    for await (const snapshot of firestore.collection('users').pages({ pageSize: 1, readTime })) {
+      if (requests.length === 2) break;
+      expect(snapshot.docs).toHaveLength(1);
+    }
+    expect(requests.map(request => request.body.readTime)).toEqual([
+      '2024-05-01T12:00:00.000Z', '2024-05-01T12:00:00.000Z',
+    ]);
+  });
+
+  it('lists documents at the given time', async () => {
+    await firestore.collection('users').listDocuments({ readTime });
+    expect(requests[0].url.searchParams.get('readTime')).toBe('2024-05-01T12:00:00.000Z');
+  });
+
+  it("keeps a reference's read time when get() is called without options", async () => {
+    const ref = new DocumentReference(firestore, 'users/ada', { readTime: '2024-05-01T11:00:00Z' });
+    await ref.get();
+    await ref.get([ 'name' ]);
+    await ref.get({ readTime });
+    expect(requests.map(request => request.body.readTime)).toEqual([
+      '2024-05-01T11:00:00Z', '2024-05-01T11:00:00Z', '2024-05-01T12:00:00.000Z',
+    ]);
+  });
+});
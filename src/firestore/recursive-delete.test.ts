@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import type { api } from './types';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const basePath = 'projects/test/databases/(default)/documents';
+const readTime = '2024-05-01T12:00:00Z';
+let queries: Array<{ url: URL, body: any }>;
+let deletes: string[];
+let descendants: string[];
+let failDelete: (name: string) => boolean;
+
+beforeEach(() => {
+  queries = [];
+  deletes = [];
+  descendants = [];
+  failDelete = () => false;
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const url = new URL(input);
+    const body = JSON.parse(init.body as string);
+    return new Response(JSON.stringify(url.pathname.endsWith(':runQuery') ? runQuery(url, body) : batchWrite(body)));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Returns the descendants after the cursor, up to the limit
+function runQuery(url: URL, body: { structuredQuery: api.StructuredQuery }) {
+  queries.push({ url, body });
+  const { startAt, limit } = body.structuredQuery;
+  const after = startAt ? descendants.indexOf(startAt.values[0].referenceValue.slice(basePath.length + 1)) + 1 : 0;
+  const names = descendants.slice(after, after + limit);
+  if (!names.length) return [{ readTime }];
+  return names.map(name => ({ document: { name: `${basePath}/${name}` }, readTime }));
+}
+
+function batchWrite(body: api.BatchWriteRequest): api.BatchWriteResponse {
+  const failed = body.writes.map(write => failDelete(write.delete));
+  deletes.push(...body.writes.filter((write, i) => !failed[i]).map(write => write.delete.slice(basePath.length + 1)));
+  return {
+    writeResults: failed.map(failed => failed ? {} : { updateTime: readTime }),
+    status: failed.map(failed => failed ? { code: 7, message: 'Permission denied' } : { code: 0, message: '' }),
+  };
+}
+
+
+describe('recursiveDelete', () => {
+  it('deletes a document and every document below it', async () => {
+    descendants = [ 'users/ada/posts/1', 'users/ada/posts/1/comments/1', 'users/ada/likes/1' ];
+    const result = await firestore.recursiveDelete(firestore.doc('users/ada'));
+
+    expect(result).toEqual({ deleted: 4, done: true });
+    expect(deletes.sort()).toEqual([ ...descendants, 'users/ada' ].sort());
+    const [ { url, body } ] = queries;
+    expect(url.pathname).toBe(`/v1/${basePath}/users/ada:runQuery`);
+    expect(body.structuredQuery.from).toEqual([{ allDescendants: true }]);
+    expect(body.structuredQuery.select).toEqual({ fields: [{ fieldPath: '__name__' }] });
+  });
+
+  it('deletes every document in a collection and its subcollections', async () => {
+    descendants = [ 'users/ada', 'users/ada/posts/1', 'users/alan' ];
+    const result = await firestore.recursiveDelete(firestore.collection('users'));
+
+    expect(result).toEqual({ deleted: 3, done: true });
+    expect(deletes.sort()).toEqual(descendants.sort());
+    expect(queries[0].url.pathname).toBe(`/v1/${basePath}:runQuery`);
+    const bounds = queries[0].body.structuredQuery.where.compositeFilter.filters.map(filter => filter.fieldFilter);
+    expect(bounds).toEqual([
+      {
+        field: { fieldPath: '__name__' },
+        op: 'GREATER_THAN_OR_EQUAL',
+        value: { referenceValue: `${basePath}/users/__id-9223372036854775808__` },
+      },
+      {
+        field: { fieldPath: '__name__' },
+        op: 'LESS_THAN',
+        value: { referenceValue: `${basePath}/users\0/__id-9223372036854775808__` },
+      },
+    ]);
+  });
+
+  it('fetches descendants a page at a time', async () => {
+    descendants = [ 'users/ada/posts/1', 'users/ada/posts/2', 'users/ada/posts/3' ];
+    await firestore.recursiveDelete(firestore.doc('users/ada'), { pageSize: 2 });
+    expect(queries.map(query => query.body.structuredQuery.limit)).toEqual([ 2, 2 ]);
+    expect(deletes).toHaveLength(4);
+  });
+
+  it('deletes at most the limit and reports whether the tree is gone', async () => {
+    descendants = [ 'users/ada/posts/1', 'users/ada/posts/2', 'users/ada/posts/3' ];
+    const first = await firestore.recursiveDelete(firestore.doc('users/ada'), { limit: 2 });
+    expect(first).toEqual({ deleted: 2, done: false });
+    expect(deletes).toHaveLength(2);
+    expect(deletes).not.toContain('users/ada');
+
+    descendants = descendants.slice(2);
+    const second = await firestore.recursiveDelete(firestore.doc('users/ada'), { limit: 2 });
+    expect(second).toEqual({ deleted: 2, done: true });
+    expect(deletes).toHaveLength(4);
+    expect(deletes).toContain('users/ada');
+  });
+
+  it('reports progress as documents are deleted', async () => {
+    descendants = [ 'users/ada/posts/1', 'users/ada/posts/2' ];
+    const progress: number[] = [];
+    await firestore.recursiveDelete(firestore.doc('users/ada'), { onProgress: deleted => progress.push(deleted) });
+    expect(progress).toEqual([ 1, 2, 3 ]);
+  });
+
+  it('deletes the rest and then rejects when deletes fail', async () => {
+    descendants = [ 'users/ada/posts/1', 'users/ada/posts/2' ];
+    failDelete = name => name.endsWith('/posts/1');
+    await expect(firestore.recursiveDelete(firestore.doc('users/ada'))).rejects.toThrow(
+      '1 delete failed. The last delete failed with: Permission denied'
+    );
+    expect(deletes.sort()).toEqual([ 'users/ada', 'users/ada/posts/2' ]);
+  });
+
+  it('uses the given BulkWriter', async () => {
+    descendants = [ 'users/ada/posts/1' ];
+    const bulkWriter = firestore.bulkWriter();
+    const deleted: string[] = [];
+    bulkWriter.onWriteResult(ref => deleted.push(ref.path));
+    await firestore.recursiveDelete(firestore.doc('users/ada'), { bulkWriter });
+    expect(deleted.sort()).toEqual([ 'users/ada', 'users/ada/posts/1' ]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Firestore } from './firestore';
+import { FieldPath } from './field-path';
+import { CollectionReference, DocumentReference, Query } from './reference';
+import type { RecursiveDeleteOptions, RecursiveDeleteResult, api } from './types';
+import { WriteProgress } from './write-progress';
+
+const documentId: api.FieldReference = { fieldPath: FieldPath.documentId().toString() };
+// The smallest numeric id. Numeric ids sort before all other ids, so no document in a collection sorts before it.
+const minDocumentId = '__id-9223372036854775808__';
+
+
+/**
+ * Deletes a document or collection along with every document in its subcollections, at any depth. Descendants are
+ * found with a single query over all collections below the parent, so the number of requests grows with the number
+ * of documents rather than the number of collections.
+ */
+export async function recursiveDelete(
+  firestore: Firestore,
+  ref: DocumentReference<any> | CollectionReference<any>,
+  options: RecursiveDeleteOptions = {}
+): Promise<RecursiveDeleteResult> {
+  const { pageSize = 1000, limit } = options;
+  const bulkWriter = options.bulkWriter || firestore.bulkWriter();
+  const progress = new WriteProgress('delete', options.onProgress);
+
+  let query = getDescendantsQuery(ref).select();
+  if (limit) query = query.limit(limit);
+  let found = 0;
+  for await (const snapshot of query.pages({ pageSize })) {
+    found += snapshot.docs.length;
+    snapshot.docs.forEach(doc => progress.track(bulkWriter.delete(doc.ref)));
+    // Keep only one page of deletes in memory
+    await bulkWriter.flush();
+  }
+
+  // When limited, the tree is only known to be gone once a call finds fewer documents than its limit
+  const done = !limit || found < limit;
+  if (done && ref instanceof DocumentReference) {
+    progress.track(bulkWriter.delete(ref));
+  }
+  await bulkWriter.flush();
+
+  progress.throwIfFailed();
+  return { deleted: progress.succeeded, done };
+}
+
+// Queries every document below the ref, across all collection ids
+export function getDescendantsQuery(ref: DocumentReference<any> | CollectionReference<any>): Query {
+  const filters: api.Filter[] = [];
+  let parent: CollectionReference;
+  if (ref instanceof CollectionReference) {
+    parent = ref;
+    // Limit the results to documents in this collection and its subcollections. The bounds must be document names, so
+    // they are the first possible document in this collection and in the next possible collection after it
+    const start = `${ref.qualifiedPath}/${minDocumentId}`;
+    const end = `${ref.qualifiedPath}\0/${minDocumentId}`;
+    filters.push(
+      { fieldFilter: { field: documentId, op: 'GREATER_THAN_OR_EQUAL', value: { referenceValue: start } } },
+      { fieldFilter: { field: documentId, op: 'LESS_THAN', value: { referenceValue: end } } },
+    );
+  } else {
+    // Queries run against the parent of their collection, so any child collection will run against this document
+    parent = ref.collection('_');
+  }
+  return new Query(parent, {
+    from: [{ allDescendants: true }],
+    filters,
+    orderBy: [],
+  });
+}
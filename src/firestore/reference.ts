@@ -1,11 +1,24 @@
+import { decodeBase64Url, encodeBase64Url } from '../base64url';
+import { StatusError } from '../status-error';
 import type {
-  api, DocumentData, OrderByDirection, PartialWithFieldValue, ReadTransactionOptions,
-  SetOptions, UpdateData, WhereFilterOp, WithFieldValue
+  AggregateSpec, api, ConsistencyOptions, DocumentData, ExplainOptions, ExplainResults, FirestoreDataConverter,
+  ListCollectionsOptions, ListDocumentsOptions, OrderByDirection, PartialWithFieldValue, Precondition, QueryData,
+  QueryStreamOptions, ReadTimeOptions, ReadTransactionOptions, SetOptions, UpdateData, VectorQueryOptions, WhereFilterOp,
+  WithFieldValue
 } from './types';
+import { AggregateField, AggregateQuery } from './aggregate';
 import { DocumentSnapshot } from './document';
+import { decodeExplainMetrics } from './explain';
+import { encodeFieldPath, FieldPath, isDocumentId } from './field-path';
+import { CompositeFilter, FieldFilter, Filter } from './filter';
 import { Firestore } from './firestore';
-import { decodePath, encodeValue } from './serializer';
-import { createCursorSymbol, querySymbol, transactionSymbol } from './symbols';
+import { QueryPartition } from './partition';
+import { queryError } from './query-error';
+import { decodePath, encodeConsistency, encodeValue, encodeVector, VectorValue } from './serializer';
+import {
+  createCursorSymbol, documentRefSymbol, fieldValueSymbol, queryOptionsSymbol, querySymbol, structuredQuerySymbol
+} from './symbols';
+import { compareValues } from './value-order';
 
 
  const directionOperators: {[k: string]: api.StructuredQueryDirection} = {
@@ -44,9 +57,16 @@ const inequalityFilters = new Set([
   'LESS_THAN_OR_EQUAL',
 ]);
 
-export enum FieldPath {
-  documentId = '__name__',
-}
+const maxPageSize = Math.pow(2, 16) - 1;
+
+const limitToLastWithoutOrderBy = 'limitToLast() queries require specifying at least one orderBy() clause.';
+const limitToLastPaged = 'limitToLast() queries cannot be paged, use orderBy() in the opposite direction.';
+
+// Firestore's limits on filters. A query's filters may expand to at most 30 disjunctions, i.e. the alternatives left
+// once its OR filters are multiplied out, with each value of an `in` or `array-contains-any` filter counting as one.
+const maxDisjunctions = 30;
+const maxNotInValues = 10;
+const listOperators = new Set<WhereFilterOp>([ 'in', 'not-in', 'array-contains-any' ]);
 
 export class Reference {
   constructor(readonly firestore: Firestore, path: string | string[]) {
@@ -62,12 +82,27 @@ export class Reference {
 export class DocumentReference<T = DocumentData> {
   readonly segments: string[];
 
-  constructor(readonly firestore: Firestore, path: string | string[], readonly transactionOptions?: ReadTransactionOptions) {
+  constructor(
+    readonly firestore: Firestore,
+    path: string | string[],
+    readonly transactionOptions?: ReadTransactionOptions,
+    readonly converter: FirestoreDataConverter<T> = null,
+  ) {
     const segments = typeof path === 'string' ? trim(path).split('/').filter(Boolean) : path;
     if (segments.length % 2 !== 0) throw new Error('A document reference must have an even number of segments, received ' + segments.join('/'));
     this.segments = segments;
   }
 
+  /**
+   * Returns a reference which uses the converter to read and write documents as `U`. Pass null to remove the
+   * converter.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): DocumentReference<U>;
+  withConverter(converter: null): DocumentReference<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): DocumentReference<U> {
+    return new DocumentReference<U>(this.firestore, this.segments, this.transactionOptions, converter);
+  }
+
   collection(path: string): CollectionReference {
     return new CollectionReference(this.firestore, this.segments.concat(trim(path).split('/')));
   }
@@ -85,28 +120,57 @@ export class DocumentReference<T = DocumentData> {
   }
 
   get parent(): CollectionReference<T> {
-    return new CollectionReference<T>(this.firestore, this.path.split('/').slice(0, -1).join('/'));
-  }
-
-  async get(fields?: string[]) {
-    return (await this.firestore.batchGet([ this ], fields, this.transactionOptions))[0];
-  }
-
-  async listCollections(): Promise<CollectionReference[]> {
-    const response: api.ListCollectionIdsResponse = await this.firestore.request(
-      'POST',
-      `${this.path}:listCollectionIds`,
-      { pageSize: Math.pow(2, 16) - 1 }
-    );
-    return response.collectionIds.map(id => this.collection(id));
+    return new CollectionReference<T>(this.firestore, this.segments.slice(0, -1), undefined, this.converter);
+  }
+
+  get(options?: ReadTimeOptions): Promise<DocumentSnapshot<T>>;
+  get(fields?: Array<string | FieldPath>, options?: ReadTimeOptions): Promise<DocumentSnapshot<T>>;
+  async get(
+    fieldsOrOptions?: Array<string | FieldPath> | ReadTimeOptions, options?: ReadTimeOptions
+  ): Promise<DocumentSnapshot<T>> {
+    const fields = Array.isArray(fieldsOrOptions) ? fieldsOrOptions : undefined;
+    if (!Array.isArray(fieldsOrOptions)) options = fieldsOrOptions;
+    const consistency = { ...this.transactionOptions, ...encodeConsistency(options) };
+    return (await this.firestore.batchGet([ this ], fields, consistency))[0];
+  }
+
+  /**
+   * Lists all the subcollections of this document, following page tokens until every collection has been returned.
+   */
+  async listCollections(options?: ListCollectionsOptions): Promise<CollectionReference[]> {
+    const collections: CollectionReference[] = [];
+    for await (const collection of this.iterateCollections(options)) {
+      collections.push(collection);
+    }
+    return collections;
+  }
+
+  /**
+   * Iterates over the subcollections of this document, fetching a page of collection ids at a time.
+   */
+  async *iterateCollections(options: ListCollectionsOptions = {}): AsyncGenerator<CollectionReference> {
+    const { pageSize = maxPageSize, readTime } = options;
+    let pageToken: string;
+    do {
+      const request: api.ListCollectionIdsRequest = { pageSize, pageToken, readTime: readTime?.toISOString() };
+      const response: api.ListCollectionIdsResponse = await this.firestore.request(
+        'POST',
+        `${this.path}:listCollectionIds`,
+        request
+      );
+      for (const id of response.collectionIds || []) {
+        yield this.collection(id);
+      }
+      pageToken = response.nextPageToken;
+    } while (pageToken);
   }
 
   async create(data: WithFieldValue<T>): Promise<Date> {
     return (await this.firestore.batch().create(this, data).commit())[0];
   }
 
-  async delete(): Promise<void> {
-    await this.firestore.batch().delete(this).commit();
+  async delete(precondition?: Precondition): Promise<void> {
+    await this.firestore.batch().delete(this, precondition).commit();
   }
 
   set(data: PartialWithFieldValue<T>, options: SetOptions): Promise<Date>;
@@ -115,8 +179,8 @@ export class DocumentReference<T = DocumentData> {
     return (await this.firestore.batch().set(this, data, options).commit())[0];
   }
 
-  async update(data: UpdateData<T>): Promise<Date> {
-    return (await this.firestore.batch().update(this, data).commit())[0];
+  async update(data: UpdateData<T>, precondition?: Precondition): Promise<Date> {
+    return (await this.firestore.batch().update(this, data, precondition).commit())[0];
   }
 }
 
@@ -135,6 +199,19 @@ export class QuerySnapshot<T = DocumentData> {
       callback.call(thisArg, doc);
     }
   }
+
+  /**
+   * Returns an opaque, URL-safe token for the page of results after this one, to hand to clients of a public API. Pass
+   * it to `startAfterPageToken()` on the same query to get the next page. Returns null when there are no more results,
+   * as the query has no limit or this page isn't full.
+   */
+  nextPageToken(): string | null {
+    const { limit, reverse } = this.query[queryOptionsSymbol]();
+    if (reverse) throw new Error(limitToLastPaged);
+    if (limit === undefined || !this.docs.length || this.docs.length < limit) return null;
+    const { startAt } = this.query.startAfter(this.docs[this.docs.length - 1])[queryOptionsSymbol]();
+    return encodePageToken(startAt.values);
+  }
 }
 
 
@@ -145,40 +222,42 @@ export interface QueryOptions extends api.StructuredQuery {
 
 
 export class Query<T = DocumentData> {
+  static fromJSON(firestore: Firestore, data: QueryData): Query {
+    validateQueryData(data);
+    return new Query(new CollectionReference(firestore, data.path), data.query);
+  }
+
   protected [querySymbol]: QueryOptions = undefined;
 
   constructor(readonly ref: CollectionReference<T>, query: QueryOptions) {
     this[querySymbol] = query;
   }
 
-  where(fieldPath: string, opStr: WhereFilterOp, value: unknown): Query<T> {
-    let filter: api.Filter;
-    if (value === undefined) throw new Error('Where value cannot be undefined');
-    if (fieldPath === FieldPath.documentId) {
-      if (typeof value === 'string') value = this.ref.doc(value);
-      else if (Array.isArray(value) && typeof value[0] === 'string') value = value.map(value => this.ref.doc(value));
-    }
-    if ((opStr === '==' || opStr === '!=') && (value === null || typeof value === 'number' && isNaN(value))) {
-      const op = unaryOperators[opStr][value as any] as api.UnaryFilterOperator;
-      filter = { unaryFilter: { field: { fieldPath }, op } };
-    } else {
-      filter = { fieldFilter: { field: { fieldPath }, op: comparisonOperators[opStr], value: encodeValue(value) } };
-    }
-    return new Query<T>(this.ref, { ...this[querySymbol], filters: [ ...this[querySymbol].filters, filter ] });
+  where(filter: Filter): Query<T>;
+  where(fieldPath: string | FieldPath, opStr: WhereFilterOp, value: unknown): Query<T>;
+  where(fieldPathOrFilter: string | FieldPath | Filter, opStr?: WhereFilterOp, value?: unknown): Query<T> {
+    const filter = encodeFilter(path => this[documentRefSymbol](path), fieldPathOrFilter instanceof Filter
+      ? fieldPathOrFilter
+      : Filter.where(fieldPathOrFilter, opStr, value));
+    if (!filter) return this;
+    const filters = [ ...this[querySymbol].filters, filter ];
+    validateFilters(filters);
+    return new Query<T>(this.ref, { ...this[querySymbol], filters });
   }
 
-  select(...fieldPaths: string[]): Query<T> {
-    if (!fieldPaths.length) fieldPaths.push(FieldPath.documentId);
+  select(...fieldPaths: Array<string | FieldPath>): Query<T> {
+    if (!fieldPaths.length) fieldPaths.push(FieldPath.documentId());
     return new Query(this.ref, {
       ...this[querySymbol],
-      select: { fields: fieldPaths.map(fieldPath => ({ fieldPath })) },
+      select: { fields: fieldPaths.map(fieldPath => ({ fieldPath: encodeFieldPath(fieldPath) })) },
     });
   }
 
-  orderBy(fieldPath: string, directionStr?: OrderByDirection): Query<T> {
+  orderBy(fieldPath: string | FieldPath, directionStr?: OrderByDirection): Query<T> {
+    const field = { fieldPath: encodeFieldPath(fieldPath) };
     return new Query(this.ref, {
       ...this[querySymbol],
-      orderBy: [ ...this[querySymbol].orderBy, { field: { fieldPath }, direction: directionOperators[directionStr] } ],
+      orderBy: [ ...this[querySymbol].orderBy, { field, direction: directionOperators[directionStr] } ],
     });
   }
 
@@ -188,6 +267,7 @@ export class Query<T = DocumentData> {
   }
 
   limitToLast(limit: number): Query<T> {
+    if (!this[querySymbol].orderBy.length) throw new Error(limitToLastWithoutOrderBy);
     return new Query(this.ref, { ...this[querySymbol], limit, reverse: true });
   }
 
@@ -203,25 +283,79 @@ export class Query<T = DocumentData> {
     return new Query(this.ref, { ...this[querySymbol], startAt: this[createCursorSymbol](fieldValuesOrDocumentSnapshot, false) });
   }
 
-  endAt(...fieldValuesOrDocumentSnapshot: Array<DocumentSnapshot<unknown> | unknown>): Query<T> {
+  endBefore(...fieldValuesOrDocumentSnapshot: Array<DocumentSnapshot<unknown> | unknown>): Query<T> {
     return new Query(this.ref, { ...this[querySymbol], endAt: this[createCursorSymbol](fieldValuesOrDocumentSnapshot, true) });
   }
 
+  endAt(...fieldValuesOrDocumentSnapshot: Array<DocumentSnapshot<unknown> | unknown>): Query<T> {
+    return new Query(this.ref, { ...this[querySymbol], endAt: this[createCursorSymbol](fieldValuesOrDocumentSnapshot, false) });
+  }
+
+  /**
+   * @deprecated Use `endAt()`, which this is the same as.
+   */
   endAfter(...fieldValuesOrDocumentSnapshot: Array<DocumentSnapshot<unknown> | unknown>): Query<T> {
     return new Query(this.ref, { ...this[querySymbol], endAt: this[createCursorSymbol](fieldValuesOrDocumentSnapshot, false) });
   }
 
+  /**
+   * Starts after the last document of the page a token was created for with `QuerySnapshot.nextPageToken()`. Tokens
+   * only hold a position in the results, so clients can't use them to run other queries.
+   */
+  startAfterPageToken(pageToken: string): Query<T> {
+    const values = decodePageToken(pageToken);
+    if (values.length !== getFieldOrders(this[querySymbol]).length) {
+      throw new Error('Invalid page token for this query.');
+    }
+    return new Query(this.ref, { ...this[querySymbol], startAt: { values, before: false }, offset: undefined });
+  }
+
+  /**
+   * Returns a query for the `limit` documents whose vectors in `vectorField` are nearest to `queryVector`, nearest
+   * first. The query's filters are applied before the search.
+   */
+  findNearest(options: VectorQueryOptions): Query<T> {
+    const { vectorField, queryVector, limit, distanceMeasure, distanceResultField, distanceThreshold } = options;
+    const vector = queryVector instanceof VectorValue ? queryVector : new VectorValue(queryVector);
+    if (!vector.toArray().length) throw new Error('findNearest() requires a query vector with at least one value.');
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new Error('findNearest() requires a limit between 1 and 1000.');
+    }
+    return new Query(this.ref, {
+      ...this[querySymbol],
+      findNearest: {
+        vectorField: { fieldPath: encodeFieldPath(vectorField) },
+        queryVector: encodeVector(vector),
+        distanceMeasure,
+        limit,
+        distanceResultField: distanceResultField && encodeFieldPath(distanceResultField),
+        distanceThreshold,
+      },
+    });
+  }
+
+  // Document ids are relative to the collection, except in collection group queries where they are full paths
+  private [documentRefSymbol](path: string): DocumentReference<T> {
+    if (this[querySymbol].from[0].allDescendants) {
+      return new DocumentReference<T>(this.ref.firestore, path, undefined, this.ref.converter);
+    }
+    if (path.includes('/')) {
+      throw new Error(`Invalid document id '${path}' in a query on '${this.ref.path}', it must not contain '/'.`);
+    }
+    return this.ref.doc(path);
+  }
+
   private [createCursorSymbol](cursorValuesOrDocumentSnapshot: Array<DocumentSnapshot | unknown>, before: boolean): api.Cursor {
     const fieldOrders = getFieldOrders(this[querySymbol]);
-    let fieldValues: unknown[];
 
     if (cursorValuesOrDocumentSnapshot.length === 1 && cursorValuesOrDocumentSnapshot[0] instanceof DocumentSnapshot) {
-      fieldValues = extractFieldValues(cursorValuesOrDocumentSnapshot[0] as DocumentSnapshot, fieldOrders);
-    } else {
-      fieldValues = cursorValuesOrDocumentSnapshot;
+      // Use the values as stored so timestamps don't lose precision being decoded and encoded again
+      return { values: extractFieldValues(cursorValuesOrDocumentSnapshot[0] as DocumentSnapshot, fieldOrders), before };
     }
+    const fieldValues = cursorValuesOrDocumentSnapshot;
 
-    if (fieldValues.length > fieldOrders.length) {
+    // Values are only accepted for explicit orderBy() fields, not the implicit ones which a snapshot fills in
+    if (fieldValues.length > this[querySymbol].orderBy.length) {
       throw new Error(
         'Too many cursor values specified. The specified ' +
           'values must match the orderBy() constraints of the query.'
@@ -233,8 +367,12 @@ export class Query<T = DocumentData> {
     for (let i = 0; i < fieldValues.length; ++i) {
       let fieldValue = fieldValues[i];
 
-      if (fieldOrders[i].field === FieldPath.documentId as string && typeof fieldValue === 'string') {
-        fieldValue = this.ref.doc(fieldValue);
+      if (isDocumentId(fieldOrders[i].field.fieldPath)) {
+        if (typeof fieldValue === 'string') {
+          fieldValue = this[documentRefSymbol](fieldValue);
+        } else if (!(fieldValue instanceof DocumentReference)) {
+          throw new Error('A cursor value for the document id must be a document id or a DocumentReference.');
+        }
       }
       if (typeof fieldValue === 'undefined') {
         throw new Error('A cursor value must be provided for the ' + fieldOrders[i].field.fieldPath + ' field.');
@@ -246,7 +384,44 @@ export class Query<T = DocumentData> {
     return cursor;
   }
 
-  async get(): Promise<QuerySnapshot<T>> {
+  /**
+   * Returns a query whose results are converted to `U` by the converter. Pass null to remove the converter.
+   */
+  withConverter<U>(converter: FirestoreDataConverter<U>): Query<U>;
+  withConverter(converter: null): Query<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): Query<U> {
+    return new Query<U>(this.ref.withConverter(converter), this[querySymbol]);
+  }
+
+  /**
+   * Returns the query as JSON, which `Query.fromJSON()` turns back into a query, e.g. in another Worker. Converters
+   * aren't included.
+   */
+  toJSON(): QueryData {
+    return { path: this.ref.path, query: structuredClone(this[querySymbol]) };
+  }
+
+  /**
+   * Returns a query that counts the documents in the result set of this query without fetching them.
+   */
+  count(): AggregateQuery<{ count: AggregateField<number> }, T> {
+    return this.aggregate({ count: AggregateField.count() });
+  }
+
+  /**
+   * Returns a query that calculates the given aggregations over the result set of this query without fetching the
+   * documents, e.g. `query.aggregate({ total: sum('amount'), avg: average('score') })`.
+   */
+  aggregate<A extends AggregateSpec>(aggregateSpec: A): AggregateQuery<A, T> {
+    return new AggregateQuery(this, aggregateSpec);
+  }
+
+  // Read-only access to the query options for snapshots and partitions
+  [queryOptionsSymbol](): Readonly<QueryOptions> {
+    return this[querySymbol];
+  }
+
+  [structuredQuerySymbol](): api.StructuredQuery {
     const { reverse, filters, ...query } = this[querySymbol];
     if (filters.length > 1) {
       query.where = { compositeFilter: { op: 'AND', filters } };
@@ -255,35 +430,144 @@ export class Query<T = DocumentData> {
     }
     if (reverse) {
       if (!query.orderBy.length) {
-        throw new Error('limitToLast() queries require specifying at least one orderBy() clause.');
+        throw new Error(limitToLastWithoutOrderBy);
       }
+      const { startAt, endAt } = query;
       // Flip the orderBy directions since we want the last results
       query.orderBy = query.orderBy.map(({ field, direction }) =>
         ({ field, direction: direction === 'DESCENDING' ? 'ASCENDING' : 'DESCENDING' }));
       // Swap the cursors to match the now-flipped query ordering.
-      query.startAt = query.endAt ? { values: query.endAt.values, before: !query.endAt.before } : undefined;
-      query.endAt = query.startAt ? { values: query.startAt.values, before: !query.startAt.before } : undefined;
+      query.startAt = endAt ? { values: endAt.values, before: !endAt.before } : undefined;
+      query.endAt = startAt ? { values: startAt.values, before: !startAt.before } : undefined;
     }
-    const response: api.RunQueryResponse[] = await this.ref.firestore.request('POST', `${this.ref.parent.path}:runQuery`, {
-      structuredQuery: query, transaction: this.ref.firestore[transactionSymbol],
-    });
+    return query;
+  }
+
+  async get(consistency?: ConsistencyOptions | ReadTimeOptions): Promise<QuerySnapshot<T>> {
+    return this.createSnapshot(await this.runQuery(encodeConsistency(consistency)));
+  }
 
+  /**
+   * Returns how the server plans to run this query, such as the indexes it uses. With `analyze` the query is also run,
+   * returning its results along with execution stats such as the documents scanned and the time taken.
+   */
+  async explain(options: ExplainOptions = {}): Promise<ExplainResults<QuerySnapshot<T>>> {
+    const response = await this.runQuery({ explainOptions: { analyze: !!options.analyze } });
+    const metrics = decodeExplainMetrics(response.find(e => e.explainMetrics)?.explainMetrics);
+    return { metrics, snapshot: options.analyze ? this.createSnapshot(response) : null };
+  }
+
+  private async runQuery(request: object): Promise<api.RunQueryResponse[]> {
+    const path = `${this.ref.parent.path}:runQuery`;
+    const response = await this.ref.firestore.request<api.RunQueryResponse[]>('POST', path, {
+      structuredQuery: this[structuredQuerySymbol](), ...request,
+    }).catch(err => { throw err instanceof StatusError ? queryError(err) : err; });
+    if (response[0]?.error) throw queryError(response[0].error);
+    return response;
+  }
+
+  private createSnapshot(response: api.RunQueryResponse[]): QuerySnapshot<T> {
     const readTime = new Date(response[0].readTime);
-    if (response[0]?.error) throw new Error(response[0].error.message);
-    if (response[0]?.skippedResults) response.shift();
-    if (reverse) response.reverse();
-    const docs = response.filter(e => e.document).map(e =>
-      new DocumentSnapshot<T>(this.ref.doc(decodePath(e.document.name).replace(this.ref.path, '')), e.document, e.readTime)
+    const results = response.filter(e => e.document);
+    if (this[querySymbol].reverse) results.reverse();
+    const docs = results.map(e =>
+      new DocumentSnapshot<T>(
+        new DocumentReference<T>(this.ref.firestore, decodePath(e.document.name), undefined, this.ref.converter),
+        e.document,
+        e.readTime
+      )
     );
-    return new QuerySnapshot<T>(this, readTime, response.length, docs);
+    return new QuerySnapshot<T>(this, readTime, docs.length, docs);
+  }
+
+  /**
+   * Splits this query into up to `desiredPartitionCount` partitions of roughly equal size, which can be queried in
+   * parallel. The query may have filters, but not orderBy(), limit(), offset() or cursors. Fewer partitions are returned
+   * when there are too few documents to split.
+   */
+  async getPartitions(desiredPartitionCount: number): Promise<Array<QueryPartition<T>>> {
+    if (!(desiredPartitionCount >= 1)) throw new Error('The desired partition count must be at least 1.');
+    const { from, orderBy, limit, offset, startAt, endAt, reverse } = this[querySymbol];
+    if (orderBy.some(order => !isDocumentId(order.field.fieldPath) || order.direction === 'DESCENDING')
+      || limit !== undefined || offset || startAt || endAt || reverse) {
+      throw new Error('getPartitions() cannot be used with orderBy(), limit(), offset() or cursors.');
+    }
+
+    const boundaries: api.Value[] = [];
+    if (desiredPartitionCount > 1) {
+      // Partitions are only calculated for collection groups, so for a collection the boundaries are taken from the
+      // group of same-named collections under its parent and those outside it are dropped
+      const request: api.PartitionQueryRequest = {
+        structuredQuery: {
+          from: [{ collectionId: from[0].collectionId, allDescendants: true }],
+          orderBy: [{ field: { fieldPath: FieldPath.documentId().toString() }, direction: 'ASCENDING' }],
+        },
+        // The number of boundaries, which is one fewer than the number of partitions
+        partitionCount: String(desiredPartitionCount - 1),
+      };
+      do {
+        const response: api.PartitionQueryResponse = await this.ref.firestore.request(
+          'POST', `${this.ref.parent.path}:partitionQuery`, request
+        );
+        response.partitions?.forEach(cursor => boundaries.push(cursor.values[0]));
+        request.pageToken = response.nextPageToken;
+      } while (request.pageToken);
+    }
+
+    // Boundaries aren't ordered across pages of the response. For a collection they may include documents in nested
+    // collections with the same id, which are outside the collection being queried.
+    const isInCollection = (name: string) => name.startsWith(this.ref.qualifiedPath + '/')
+      && decodePath(name).split('/').length === this.ref.segments.length + 1;
+    const names = boundaries.map(value => value.referenceValue)
+      .filter(name => from[0].allDescendants || isInCollection(name))
+      .sort((a, b) => compareValues({ referenceValue: a }, { referenceValue: b }));
+    const refs = names.map(name => new DocumentReference(this.ref.firestore, decodePath(name)));
+    return [ ...refs, undefined ].map((endBefore, i) => new QueryPartition(this, refs[i - 1], endBefore));
+  }
+
+  /**
+   * Iterates over the results of this query a page at a time, using the last document of each page as the cursor for
+   * the next. Only one page is held in memory at once. The query's own limit and offset are respected.
+   */
+  async *pages(options: QueryStreamOptions = {}): AsyncGenerator<QuerySnapshot<T>> {
+    const { pageSize = 300, readTime } = options;
+    const { limit, reverse } = this[querySymbol];
+    if (reverse) throw new Error(limitToLastPaged);
+    let remaining = limit ?? Infinity;
+    let query: Query<T> = this;
+
+    while (remaining > 0) {
+      const size = Math.min(pageSize, remaining);
+      const snapshot = await query.limit(size).get({ readTime });
+      if (snapshot.docs.length) yield snapshot;
+      if (snapshot.docs.length < size) return;
+      remaining -= snapshot.docs.length;
+      const next = query.startAfter(snapshot.docs[snapshot.docs.length - 1]);
+      // The offset only applies to the first page
+      query = new Query<T>(this.ref, { ...next[querySymbol], offset: undefined });
+    }
+  }
+
+  /**
+   * Iterates over the documents matching this query, fetching them in pages of `pageSize` as needed.
+   */
+  async *stream(options?: QueryStreamOptions): AsyncGenerator<DocumentSnapshot<T>> {
+    for await (const snapshot of this.pages(options)) {
+      for (const doc of snapshot.docs) yield doc;
+    }
   }
 }
 
 
-export class CollectionReference<T = DocumentData> extends Query {
+export class CollectionReference<T = DocumentData> extends Query<T> {
   readonly segments: string[];
 
-  constructor(readonly firestore: Firestore, path: string | string[], readonly transactionOptions?: ReadTransactionOptions) {
+  constructor(
+    readonly firestore: Firestore,
+    path: string | string[],
+    readonly transactionOptions?: ReadTransactionOptions,
+    readonly converter: FirestoreDataConverter<T> = null,
+  ) {
     const segments = typeof path === 'string' ? trim(path).split('/') : path;
     if (segments.length % 2 !== 1) throw new Error('A collection reference must have an odd number of segments, received ' + segments.join('/'));
     super(null, { from: [{ collectionId: segments[segments.length - 1] }], filters: [], orderBy: [] });
@@ -297,7 +581,13 @@ export class CollectionReference<T = DocumentData> extends Query {
 
   doc(path?: string): DocumentReference<T> {
     if (!path) path = this.firestore.autoId();
-    return new DocumentReference(this.firestore, this.segments.concat(trim(path).split('/')));
+    return new DocumentReference(this.firestore, this.segments.concat(trim(path).split('/')), undefined, this.converter);
+  }
+
+  withConverter<U>(converter: FirestoreDataConverter<U>): CollectionReference<U>;
+  withConverter(converter: null): CollectionReference<DocumentData>;
+  withConverter<U>(converter: FirestoreDataConverter<U> | null): CollectionReference<U> {
+    return new CollectionReference<U>(this.firestore, this.segments, this.transactionOptions, converter);
   }
 
   get id(): string {
@@ -316,13 +606,40 @@ export class CollectionReference<T = DocumentData> extends Query {
     return new DocumentReference(this.firestore, this.path.split('/').slice(0, -1).join('/'));
   }
 
-  async listDocuments(): Promise<Array<DocumentReference<T>>> {
-    const query = new URLSearchParams({
-      showMissing: 'true',
-      pageSize: String(Math.pow(2, 16) - 1),
-    });
-    const response: api.ListDocumentsResponse = await this.firestore.request('GET', this.path, query);
-    return response.documents.map(doc => new DocumentReference(this.firestore, doc.name));
+  /**
+   * Lists all the documents in this collection, following page tokens until every document has been returned. By
+   * default this includes missing documents, which don't exist but have subcollections.
+   */
+  async listDocuments(options?: ListDocumentsOptions): Promise<Array<DocumentReference<T>>> {
+    const refs: Array<DocumentReference<T>> = [];
+    for await (const snapshot of this.iterateDocuments(options)) {
+      refs.push(snapshot.ref);
+    }
+    return refs;
+  }
+
+  /**
+   * Iterates over the documents in this collection, fetching a page at a time. Missing documents are returned as
+   * snapshots which don't exist.
+   */
+  async *iterateDocuments(options: ListDocumentsOptions = {}): AsyncGenerator<DocumentSnapshot<T>> {
+    const { pageSize = maxPageSize, fieldMask, showMissing = true, orderBy, readTime } = options;
+    if (showMissing && orderBy) throw new Error('listDocuments() cannot order results when showMissing is set.');
+    let pageToken: string;
+    do {
+      const search = new URLSearchParams({ pageSize: String(pageSize) });
+      if (showMissing) search.set('showMissing', 'true');
+      if (orderBy) search.set('orderBy', orderBy);
+      if (readTime) search.set('readTime', readTime.toISOString());
+      if (pageToken) search.set('pageToken', pageToken);
+      fieldMask?.forEach(fieldPath => search.append('mask.fieldPaths', encodeFieldPath(fieldPath)));
+      const response: api.ListDocumentsResponse = await this.firestore.request('GET', this.path, search);
+      for (const doc of response.documents || []) {
+        const ref = new DocumentReference<T>(this.firestore, decodePath(doc.name), undefined, this.converter);
+        yield new DocumentSnapshot<T>(ref, doc, readTime?.toISOString());
+      }
+      pageToken = response.nextPageToken;
+    } while (pageToken);
   }
 
   async add(data: WithFieldValue<T>): Promise<DocumentReference<T>> {
@@ -332,37 +649,178 @@ export class CollectionReference<T = DocumentData> extends Query {
   }
 }
 
+/**
+ * A query over every collection with the given id, at any depth in the database.
+ */
+export class CollectionGroup<T = DocumentData> extends Query<T> {
+
+  constructor(readonly firestore: Firestore, readonly collectionId: string) {
+    if (collectionId.includes('/')) throw new Error(`Invalid collection id '${collectionId}', it must not contain '/'`);
+    // Collection group queries always run against the root of the database, the parent of a top-level collection
+    super(new CollectionReference<T>(firestore, collectionId), {
+      from: [{ collectionId, allDescendants: true }], filters: [], orderBy: [],
+    });
+  }
+}
+
 function trim(path: string) {
   return path.replace(/^\/|\/$/g, '');
 }
 
+function encodeFilter(toDocumentRef: (path: string) => DocumentReference<any>, filter: Filter): api.Filter {
+  if (filter instanceof CompositeFilter) {
+    const filters = filter.filters.map(filter => encodeFilter(toDocumentRef, filter)).filter(Boolean);
+    if (filters.length > 1) return { compositeFilter: { op: filter.op, filters } };
+    return filters[0];
+  }
+  const { opStr } = filter as FieldFilter;
+  const fieldPath = encodeFieldPath((filter as FieldFilter).fieldPath);
+  let { value } = filter as FieldFilter;
+  validateFilterValue(fieldPath, opStr, value);
+  if (isDocumentId(fieldPath)) {
+    if (typeof value === 'string') value = toDocumentRef(value);
+    else if (Array.isArray(value) && typeof value[0] === 'string') value = value.map(toDocumentRef);
+  }
+  if ((opStr === '==' || opStr === '!=') && (value === null || typeof value === 'number' && isNaN(value))) {
+    const op = unaryOperators[opStr][value as any] as api.UnaryFilterOperator;
+    return { unaryFilter: { field: { fieldPath }, op } };
+  } else {
+    return { fieldFilter: { field: { fieldPath }, op: comparisonOperators[opStr], value: encodeValue(value) } };
+  }
+}
+
+// Checks the rules for a single field filter's operator and value
+function validateFilterValue(fieldPath: string, opStr: WhereFilterOp, value: unknown) {
+  if (!comparisonOperators[opStr]) {
+    throw new Error(`Invalid query. '${opStr}' is not a valid operator, on '${fieldPath}'.`);
+  }
+  if (listOperators.has(opStr)) {
+    if (!Array.isArray(value) || !value.length) {
+      throw new Error(`Invalid query. '${opStr}' filters require a non-empty array, on '${fieldPath}'.`);
+    }
+    const maxValues = opStr === 'not-in' ? maxNotInValues : maxDisjunctions;
+    if (value.length > maxValues) {
+      throw new Error(`Invalid query. '${opStr}' filters support up to ${maxValues} values, but the filter on ` +
+        `'${fieldPath}' has ${value.length}. Split the query into several queries instead.`);
+    }
+  } else if ((value === null || Number.isNaN(value)) && opStr !== '==' && opStr !== '!=') {
+    throw new Error(`Invalid query. Null and NaN can only be compared with '==' and '!=', on '${fieldPath}'.`);
+  }
+  if (isDocumentId(fieldPath)) {
+    const values = listOperators.has(opStr) ? value as unknown[] : [ value ];
+    if (!values.every(value => typeof value === 'string' || value instanceof DocumentReference)) {
+      throw new Error('Invalid query. Filters on the document id require document ids or DocumentReferences.');
+    }
+  }
+}
+
+// Checks the rules which depend on a query's filters together
+function validateFilters(filters: api.Filter[]) {
+  const operators = flattenFilters(filters).map(filter => filter.fieldFilter?.op);
+  const hasOr = (filter: api.Filter): boolean => !!filter.compositeFilter
+    && (filter.compositeFilter.op === 'OR' || filter.compositeFilter.filters.some(hasOr));
+  const notIns = operators.filter(op => op === 'NOT_IN').length;
+  if (notIns > 1) {
+    throw new Error(`Invalid query. A query can have only one 'not-in' filter.`);
+  }
+  if (notIns && operators.includes('NOT_EQUAL')) {
+    throw new Error(`Invalid query. A 'not-in' filter can't be combined with a '!=' filter.`);
+  }
+  if (notIns && (operators.includes('IN') || operators.includes('ARRAY_CONTAINS_ANY') || filters.some(hasOr))) {
+    throw new Error(
+      `Invalid query. A 'not-in' filter can't be combined with 'in', 'array-contains-any' or 'or' filters.`
+    );
+  }
+  const disjunctions = countDisjunctions({ compositeFilter: { op: 'AND', filters } });
+  if (disjunctions > maxDisjunctions) {
+    throw new Error(`Invalid query. The filters expand to ${disjunctions} disjunctions, but Firestore allows up to ` +
+      `${maxDisjunctions}. Each value of an 'in' or 'array-contains-any' filter counts once for every alternative of ` +
+      'the OR filters it is combined with.');
+  }
+}
+
+// The number of alternatives a filter expands to once its OR filters are multiplied out
+function countDisjunctions(filter: api.Filter): number {
+  if (filter.compositeFilter) {
+    const counts = filter.compositeFilter.filters.map(countDisjunctions);
+    return filter.compositeFilter.op === 'OR'
+      ? counts.reduce((sum, count) => sum + count, 0)
+      : counts.reduce((product, count) => product * count, 1);
+  }
+  const { op, value } = filter.fieldFilter || {};
+  return op === 'IN' || op === 'ARRAY_CONTAINS_ANY' ? value.arrayValue.values?.length || 1 : 1;
+}
+
+// Field filters nested within composite filters, in order
+function flattenFilters(filters: api.Filter[]): api.Filter[] {
+  return filters.flatMap(filter => filter.compositeFilter ? flattenFilters(filter.compositeFilter.filters) : [ filter ]);
+}
+
 function getFieldOrders(query: QueryOptions) {
   const fieldOrders = query.orderBy.slice();
   if (!fieldOrders.length) {
-    for (const fieldFilter of query.filters) {
+    for (const fieldFilter of flattenFilters(query.filters)) {
       if (inequalityFilters.has(fieldFilter.fieldFilter?.op)) {
         fieldOrders.push({ field: fieldFilter.fieldFilter.field });
         break;
       }
     }
   }
-  if (!fieldOrders.some(o => o.field === FieldPath.documentId as string)) {
-    fieldOrders.push({ field: { fieldPath: FieldPath.documentId }});
+  if (!fieldOrders.some(o => isDocumentId(o.field.fieldPath))) {
+    fieldOrders.push({ field: { fieldPath: FieldPath.documentId().toString() }});
   }
   return fieldOrders;
 }
 
-function extractFieldValues(documentSnapshot: DocumentSnapshot, fieldOrders: api.StructuredQueryOrder[]): unknown[] {
-  const fieldValues: unknown[] = [];
+// Query data may come from another Worker, so its shape is checked before it is used as a query
+function validateQueryData(data: QueryData) {
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isCursor = (cursor: api.Cursor) => cursor === undefined || isObject(cursor) && Array.isArray(cursor.values);
+  const isCount = (count: number) => count === undefined || Number.isInteger(count) && count >= 0;
+  if (!isObject(data) || typeof data.path !== 'string' || !isObject(data.query)) {
+    throw new Error('Invalid query data. Expected an object with a `path` string and a `query` object.');
+  }
+  const { from, filters, select, where, orderBy, startAt, endAt, offset, limit, findNearest, reverse } = data.query;
+  const problems = [
+    (!Array.isArray(from) || from.length !== 1 || !isObject(from[0])) && '`from` must hold one collection selector',
+    (!Array.isArray(filters) || !filters.every(isObject)) && '`filters` must be an array of filters',
+    (!Array.isArray(orderBy) || !orderBy.every(order => isObject(order?.field)))
+      && '`orderBy` must be an array of field orders',
+    select !== undefined && !(isObject(select) && Array.isArray(select.fields))
+      && '`select` must have a `fields` array',
+    where !== undefined && !isObject(where) && '`where` must be a filter',
+    !(isCursor(startAt) && isCursor(endAt)) && '`startAt` and `endAt` must have a `values` array',
+    !(isCount(offset) && isCount(limit)) && '`offset` and `limit` must be non-negative integers',
+    findNearest !== undefined && !isObject(findNearest) && '`findNearest` must be an object',
+    reverse !== undefined && reverse !== true && '`reverse` must be true when set',
+  ].filter(Boolean);
+  if (problems.length) throw new Error(`Invalid query data. The query's ${problems.join(', ')}.`);
+}
+
+// Page tokens are the cursor values of the last document of a page, as base64url-encoded JSON
+function encodePageToken(values: api.Value[]): string {
+  return encodeBase64Url(JSON.stringify(values));
+}
+
+function decodePageToken(pageToken: string): api.Value[] {
+  try {
+    const values = JSON.parse(decodeBase64Url(pageToken));
+    if (Array.isArray(values)) return values;
+  } catch (err) {}
+  throw new Error('Invalid page token.');
+}
+
+function extractFieldValues(documentSnapshot: DocumentSnapshot, fieldOrders: api.StructuredQueryOrder[]): api.Value[] {
+  const fieldValues: api.Value[] = [];
 
   for (const fieldOrder of fieldOrders) {
-    if (fieldOrder.field === FieldPath.documentId as string) {
-      fieldValues.push(documentSnapshot.ref);
+    if (isDocumentId(fieldOrder.field.fieldPath)) {
+      fieldValues.push({ referenceValue: documentSnapshot.ref.qualifiedPath });
     } else {
-      const fieldValue = documentSnapshot.get(fieldOrder.field.fieldPath);
+      const fieldValue = documentSnapshot[fieldValueSymbol](fieldOrder.field.fieldPath);
       if (fieldValue === undefined) {
         throw new Error(
-          `Field "${fieldOrder.field}" is missing in the provided DocumentSnapshot. ` +
+          `Field "${fieldOrder.field.fieldPath}" is missing in the provided DocumentSnapshot. ` +
             'Please provide a document that contains values for all specified ' +
             'orderBy() and where() constraints.'
         );
@@ -0,0 +1,48 @@
+import { StatusError } from '../status-error';
+
+// Canonical status names, indexed by their numeric code as returned in `api.Status`
+export const statusNames = [
+  'OK',
+  'CANCELLED',
+  'UNKNOWN',
+  'INVALID_ARGUMENT',
+  'DEADLINE_EXCEEDED',
+  'NOT_FOUND',
+  'ALREADY_EXISTS',
+  'PERMISSION_DENIED',
+  'RESOURCE_EXHAUSTED',
+  'FAILED_PRECONDITION',
+  'ABORTED',
+  'OUT_OF_RANGE',
+  'UNIMPLEMENTED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'DATA_LOSS',
+  'UNAUTHENTICATED',
+];
+
+// Errors which mean the request may succeed if it is attempted again
+const retryableStatuses = new Set([
+  'ABORTED',
+  'CANCELLED',
+  'UNKNOWN',
+  'DEADLINE_EXCEEDED',
+  'INTERNAL',
+  'UNAVAILABLE',
+  'RESOURCE_EXHAUSTED',
+]);
+
+const initialBackoff = 100;
+const maxBackoff = 5000;
+
+export function isRetryableError(err: unknown) {
+  return err instanceof StatusError && retryableStatuses.has(err.status);
+}
+
+/**
+ * Waits an exponentially increasing, jittered amount of time before the next attempt.
+ */
+export function backoff(attempt: number) {
+  const delay = Math.min(initialBackoff * Math.pow(2, attempt - 1), maxBackoff);
+  return new Promise(resolve => setTimeout(resolve, delay * (0.5 + Math.random())));
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { DocumentReference } from './reference';
+import { Bytes, GeoPoint, VectorValue, decodeValue, encodeValue } from './serializer';
+import { Timestamp } from './timestamp';
+
+const settings = { projectId: 'test', getToken: async () => 'token' };
+const firestore = new App(settings, 'key').firestore();
+const timestampFirestore = new App({ ...settings, useTimestamps: true }, 'key').firestore();
+
+// Values go through JSON as they would in a request and its response
+function roundTrip(value: any, db = firestore) {
+  return decodeValue(db, JSON.parse(JSON.stringify(encodeValue(value))));
+}
+
+
+describe('encodeValue and decodeValue', () => {
+  it('round-trips null', () => {
+    expect(encodeValue(null)).toEqual({ nullValue: null });
+    expect(roundTrip(null)).toBeNull();
+  });
+
+  it('round-trips booleans', () => {
+    expect(encodeValue(true)).toEqual({ booleanValue: true });
+    expect(roundTrip(true)).toBe(true);
+    expect(roundTrip(false)).toBe(false);
+  });
+
+  it('round-trips integers', () => {
+    expect(encodeValue(42)).toEqual({ integerValue: '42' });
+    expect(roundTrip(42)).toBe(42);
+    expect(roundTrip(-7)).toBe(-7);
+    expect(roundTrip(Number.MAX_SAFE_INTEGER)).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  it('round-trips doubles', () => {
+    expect(encodeValue(1.5)).toEqual({ doubleValue: '1.5' });
+    expect(roundTrip(1.5)).toBe(1.5);
+    expect(roundTrip(Infinity)).toBe(Infinity);
+    expect(roundTrip(-Infinity)).toBe(-Infinity);
+  });
+
+  it('round-trips -0 as a double', () => {
+    expect(encodeValue(-0)).toEqual({ doubleValue: '-0' });
+    expect(Object.is(roundTrip(-0), -0)).toBe(true);
+  });
+
+  it('round-trips NaN', () => {
+    expect(encodeValue(NaN)).toEqual({ doubleValue: 'NaN' });
+    expect(roundTrip(NaN)).toBeNaN();
+  });
+
+  it('round-trips Dates', () => {
+    const date = new Date('2024-05-01T12:30:00.123Z');
+    expect(encodeValue(date)).toEqual({ timestampValue: '2024-05-01T12:30:00.123Z' });
+    const decoded = roundTrip(date);
+    expect(decoded).toBeInstanceOf(Date);
+    expect(decoded.getTime()).toBe(date.getTime());
+  });
+
+  it('round-trips Timestamps with nanoseconds when useTimestamps is set', () => {
+    const timestamp = Timestamp.fromString('2024-05-01T12:30:00.123456789Z');
+    expect(encodeValue(timestamp)).toEqual({ timestampValue: '2024-05-01T12:30:00.123456789Z' });
+    const decoded = roundTrip(timestamp, timestampFirestore);
+    expect(decoded).toBeInstanceOf(Timestamp);
+    expect(decoded.isEqual(timestamp)).toBe(true);
+  });
+
+  it('round-trips strings', () => {
+    expect(encodeValue('hello')).toEqual({ stringValue: 'hello' });
+    expect(roundTrip('')).toBe('');
+    expect(roundTrip('héllo 👋')).toBe('héllo 👋');
+  });
+
+  it('round-trips Bytes', () => {
+    const bytes = Bytes.fromUint8Array(new Uint8Array([ 1, 2, 3 ]));
+    expect(encodeValue(bytes)).toEqual({ bytesValue: 'AQID' });
+    const decoded = roundTrip(bytes);
+    expect(decoded).toBeInstanceOf(Bytes);
+    expect(decoded.isEqual(bytes)).toBe(true);
+  });
+
+  it('round-trips bytes which are not valid UTF-8', () => {
+    const array = new Uint8Array([ 0xff, 0x00, 0x80 ]);
+    expect(encodeValue(Bytes.fromUint8Array(array))).toEqual({ bytesValue: '/wCA' });
+    expect(roundTrip(Bytes.fromUint8Array(array)).toUint8Array()).toEqual(array);
+    expect(roundTrip(array.buffer).toUint8Array()).toEqual(array);
+    expect(roundTrip(array).toUint8Array()).toEqual(array);
+  });
+
+  it('round-trips GeoPoints', () => {
+    const point = new GeoPoint(51.5, -0.12);
+    expect(encodeValue(point)).toEqual({ geoPointValue: { latitude: 51.5, longitude: -0.12 } });
+    const decoded = roundTrip(point);
+    expect(decoded).toBeInstanceOf(GeoPoint);
+    expect(decoded.isEqual(point)).toBe(true);
+  });
+
+  it('round-trips GeoPoints at zero coordinates', () => {
+    expect(roundTrip(new GeoPoint(0, 0)).isEqual(new GeoPoint(0, 0))).toBe(true);
+  });
+
+  it('stores plain objects with latitude and longitude as maps', () => {
+    const location = { latitude: 51.5, longitude: -0.12 };
+    expect(encodeValue(location)).toHaveProperty('mapValue');
+    expect(roundTrip(location)).toEqual(location);
+  });
+
+  it('round-trips arrays', () => {
+    const array = [ 1, 'two', null, [ 3 ], { four: 4 } ];
+    expect(roundTrip(array)).toEqual(array);
+    expect(roundTrip([])).toEqual([]);
+  });
+
+  it('round-trips maps', () => {
+    const map = { name: 'Ada', tags: [ 'a', 'b' ], nested: { deep: { value: 1.5 } } };
+    expect(roundTrip(map)).toEqual(map);
+    expect(roundTrip({})).toEqual({});
+  });
+
+  it('round-trips references', () => {
+    const ref = firestore.doc('users/ada');
+    expect(encodeValue(ref)).toEqual({ referenceValue: ref.qualifiedPath });
+    const decoded = roundTrip(ref);
+    expect(decoded).toBeInstanceOf(DocumentReference);
+    expect(decoded.path).toBe('users/ada');
+  });
+
+  it('round-trips VectorValues', () => {
+    const vector = new VectorValue([ 1, 0.5, -2 ]);
+    const decoded = roundTrip(vector);
+    expect(decoded).toBeInstanceOf(VectorValue);
+    expect(decoded.isEqual(vector)).toBe(true);
+  });
+});
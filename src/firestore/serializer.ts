@@ -1,15 +1,107 @@
 import { FieldValue, UpdateCollector } from './field-value';
 import { Firestore } from './firestore';
 import { Reference } from './reference';
-import type { DocumentData, api } from './types';
+import { Timestamp } from './timestamp';
+import type { ConsistencyOptions, DocumentData, ReadTimeOptions, api } from './types';
 const RESOURCE_PATH_RE = /^projects\/([^/]+)\/databases\/([^/]+)(?:\/documents\/)?/;
+const vectorTypeField = '__type__';
+const vectorType = '__vector__';
+const vectorValueField = 'value';
+
+
+/**
+ * An immutable array of bytes, stored in Firestore as a bytes value.
+ */
+export class Bytes {
+  static fromBase64String(base64: string): Bytes {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Bytes(bytes);
+  }
+
+  static fromUint8Array(array: Uint8Array): Bytes {
+    return new Bytes(new Uint8Array(array));
+  }
+
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  toBase64(): string {
+    let binary = '';
+    for (let i = 0; i < this.bytes.length; i++) binary += String.fromCharCode(this.bytes[i]);
+    return btoa(binary);
+  }
+
+  toUint8Array(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  isEqual(other: Bytes): boolean {
+    return other instanceof Bytes && this.toBase64() === other.toBase64();
+  }
+
+  toString() {
+    return `Bytes(base64=${this.toBase64()})`;
+  }
+}
+
+
+/**
+ * A geographical point, stored in Firestore as a geo point value. Plain objects with `latitude` and `longitude` keys
+ * are stored as maps.
+ */
+export class GeoPoint {
+
+  constructor(readonly latitude: number, readonly longitude: number) {
+    if (!isFinite(latitude) || latitude < -90 || latitude > 90) {
+      throw new Error(`Latitude must be a number between -90 and 90, received ${latitude}`);
+    }
+    if (!isFinite(longitude) || longitude < -180 || longitude > 180) {
+      throw new Error(`Longitude must be a number between -180 and 180, received ${longitude}`);
+    }
+  }
+
+  isEqual(other: GeoPoint): boolean {
+    return other instanceof GeoPoint && this.latitude === other.latitude && this.longitude === other.longitude;
+  }
+
+  toJSON(): api.LatLng {
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+}
+
+
+/**
+ * A vector of numbers, such as an embedding, which can be searched with `Query.findNearest()`. Create one with
+ * `FieldValue.vector()`. Stored in Firestore as a map with the special `__type__: '__vector__'` field.
+ */
+export class VectorValue {
+  private readonly values: number[];
+
+  constructor(values: number[]) {
+    values.forEach(value => {
+      if (typeof value !== 'number') throw new Error(`Vector values must be numbers, received ${value}`);
+    });
+    this.values = values.slice();
+  }
+
+  toArray(): number[] {
+    return this.values.slice();
+  }
+
+  isEqual(other: VectorValue): boolean {
+    return other instanceof VectorValue && other.values.length === this.values.length
+      && this.values.every((value, i) => value === other.values[i]);
+  }
+}
 
 export function encode(map: DocumentData, collector?: UpdateCollector): api.MapValue {
   const fields: api.MapValue = {};
   Object.entries(map).forEach(([ key, value ]) => {
     collector?.enterField(key);
     if (value !== undefined) fields[key] = encodeValue(value, collector);
-    const shouldAddMask = !fields[key] || !(fields[key].arrayValue || fields[key].mapValue);
+    // Maps are merged field by field, unless they are empty or vectors
+    const shouldAddMask = !fields[key]?.mapValue || !Object.keys(value).length || value instanceof VectorValue;
     collector?.leaveField(shouldAddMask);
   });
   return fields;
@@ -19,18 +111,23 @@ export function encodeValue(value: any, collector?: UpdateCollector) {
   if (value === null) return { nullValue: null };
   if (typeof value === 'boolean') return { booleanValue: value };
   if (typeof value === 'number' && !(value === 0 && 1 / value === 1 / -0) && Number.isSafeInteger(value)) return { integerValue: '' + value };
-  if (typeof value === 'number') return { doubleValue: '' + value };
+  if (typeof value === 'number') return encodeDouble(value);
   if (value instanceof FieldValue) {
-    collector?.transform(value);
+    if (!collector) throw new Error(`FieldValue.${value.transform}() can only be used as a field value in written data, not in arrays or queries`);
+    collector.transform(value);
     return;
   }
-  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (value instanceof Date || value instanceof Timestamp) return { timestampValue: value.toISOString() };
   if (value.qualifiedPath) return { referenceValue: value.qualifiedPath };
   if (typeof value === 'string') return { stringValue: value };
-  if (value instanceof ArrayBuffer) return { bytesValue: btoa(new TextDecoder('utf8').decode(value)) };
-  if (value && value.buffer instanceof ArrayBuffer) return { bytesValue: btoa(new TextDecoder('utf8').decode(value.buffer)) };
-  if (typeof value === 'object' && 'latitude' in value && 'longitude' in value && Object.keys(value).length === 2) return { geoPointValue: value };
-  if (Array.isArray(value)) return { arrayValue: { values: value.map(v => encodeValue(v, collector)) } };
+  if (value instanceof Bytes) return { bytesValue: value.toBase64() };
+  if (value instanceof ArrayBuffer) return { bytesValue: Bytes.fromUint8Array(new Uint8Array(value)).toBase64() };
+  if (ArrayBuffer.isView(value)) {
+    return { bytesValue: Bytes.fromUint8Array(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)).toBase64() };
+  }
+  if (value instanceof GeoPoint) return { geoPointValue: value.toJSON() };
+  if (value instanceof VectorValue) return encodeVector(value);
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(v => encodeValue(v)) } };
   if (typeof value === 'object') return { mapValue: { fields: encode(value, collector) }};
   throw new Error(`Unsupported value type: ${typeof value}`);
 }
@@ -51,16 +148,55 @@ export function decodeValue(firestore: Firestore, valueObj: api.Value) {
     case 'booleanValue': return value;
     case 'integerValue': return parseInt(value, 10);
     case 'doubleValue': return parseFloat(value);
-    case 'timestampValue': return new Date(value);
+    case 'timestampValue': return firestore.useTimestamps ? Timestamp.fromString(value) : new Date(value);
     case 'stringValue': return value;
-    case 'bytesValue': return new Uint8Array(atob(value).split('').map(c => c.charCodeAt(0))).buffer;
-    case 'geoPointValue': return value;
+    case 'bytesValue': return Bytes.fromBase64String(value);
+    // Zero coordinates are omitted from the response
+    case 'geoPointValue': return new GeoPoint(value.latitude || 0, value.longitude || 0);
     case 'arrayValue': return value.values?.map(decodeValue.bind(null, firestore)) || [];
-    case 'mapValue': return decode(firestore, value.fields);
+    case 'mapValue': return isVector(valueObj) ? decodeVector(valueObj) : decode(firestore, value.fields);
     case 'referenceValue': return new Reference(firestore, value.replace(RESOURCE_PATH_RE, ''));
   }
 }
 
+export function encodeVector(vector: VectorValue): api.Value {
+  return {
+    mapValue: {
+      fields: {
+        [vectorTypeField]: { stringValue: vectorType },
+        [vectorValueField]: { arrayValue: { values: vector.toArray().map(encodeDouble) } },
+      },
+    },
+  };
+}
+
+// Doubles are sent as strings so NaN and Infinity, which JSON has no numbers for, survive. String conversion drops the
+// sign of -0.
+function encodeDouble(value: number): api.Value {
+  return { doubleValue: Object.is(value, -0) ? '-0' : '' + value };
+}
+
+export function isVector(value: api.Value) {
+  return value.mapValue?.fields?.[vectorTypeField]?.stringValue === vectorType;
+}
+
+export function vectorValues(value: api.Value): number[] {
+  const values = value.mapValue.fields[vectorValueField]?.arrayValue?.values || [];
+  return values.map(number => Number(number.doubleValue ?? number.integerValue));
+}
+
+function decodeVector(value: api.Value): VectorValue {
+  return new VectorValue(vectorValues(value));
+}
+
+// Read times are Dates in the public options and strings in requests. A missing read time is left out so it doesn't
+// replace one set elsewhere, e.g. on a DocumentReference.
+export function encodeConsistency(options: ConsistencyOptions | ReadTimeOptions = {}): ConsistencyOptions {
+  const { readTime, ...consistency } = options;
+  if (readTime === undefined) return consistency;
+  return { ...consistency, readTime: readTime instanceof Date ? readTime.toISOString() : readTime };
+}
+
 export function decodePath(path: string): string {
   return path.replace(RESOURCE_PATH_RE, '');
 }
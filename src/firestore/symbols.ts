@@ -6,3 +6,14 @@ export const docSymbol = Symbol();
 export const readTimeSymbol = Symbol();
 export const createCursorSymbol = Symbol();
 export const updateSymbol = Symbol();
+export const batchSymbol = Symbol();
+export const commitSymbol = Symbol();
+export const rollbackSymbol = Symbol();
+export const structuredQuerySymbol = Symbol();
+export const dataSymbol = Symbol();
+export const documentRefSymbol = Symbol();
+export const queueSymbol = Symbol();
+export const fieldValueSymbol = Symbol();
+export const cacheSymbol = Symbol();
+export const enqueueSymbol = Symbol();
+export const queryOptionsSymbol = Symbol();
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { DocumentSnapshot } from './document';
+import { decodeValue, encodeValue } from './serializer';
+import { structuredQuerySymbol } from './symbols';
+import { Timestamp } from './timestamp';
+
+const settings = { projectId: 'test', getToken: async () => 'token' };
+const firestore = new App(settings, 'key').firestore();
+const timestampFirestore = new App({ ...settings, useTimestamps: true }, 'key').firestore();
+
+
+describe('Timestamp', () => {
+  it('parses timestamps with up to nine fractional digits', () => {
+    expect(Timestamp.fromString('2024-05-01T12:30:00Z')).toEqual(new Timestamp(1714566600, 0));
+    expect(Timestamp.fromString('2024-05-01T12:30:00.1Z')).toEqual(new Timestamp(1714566600, 100000000));
+    expect(Timestamp.fromString('2024-05-01T12:30:00.123456789Z')).toEqual(new Timestamp(1714566600, 123456789));
+  });
+
+  it('parses timestamps with an offset', () => {
+    expect(Timestamp.fromString('2024-05-01T14:30:00.5+02:00')).toEqual(new Timestamp(1714566600, 500000000));
+  });
+
+  it('rejects invalid timestamps', () => {
+    expect(() => Timestamp.fromString('2024-05-01')).toThrow("Invalid timestamp: '2024-05-01'");
+    expect(() => Timestamp.fromString('2024-05-01T12:30:00.1234567890Z')).toThrow('Invalid timestamp');
+    expect(() => new Timestamp(0, 1e9)).toThrow('Timestamp nanoseconds out of range');
+    expect(() => new Timestamp(1.5, 0)).toThrow('Timestamp seconds out of range');
+    expect(() => new Timestamp(253402300800, 0)).toThrow('Timestamp seconds out of range');
+  });
+
+  it('formats with as many fractional digits as needed', () => {
+    expect(new Timestamp(1714566600, 0).toISOString()).toBe('2024-05-01T12:30:00Z');
+    expect(new Timestamp(1714566600, 120000000).toISOString()).toBe('2024-05-01T12:30:00.120Z');
+    expect(new Timestamp(1714566600, 123456000).toISOString()).toBe('2024-05-01T12:30:00.123456Z');
+    expect(new Timestamp(1714566600, 123456789).toISOString()).toBe('2024-05-01T12:30:00.123456789Z');
+    expect(JSON.stringify({ at: new Timestamp(0, 1) })).toBe('{"at":"1970-01-01T00:00:00.000000001Z"}');
+  });
+
+  it('converts to and from Dates and milliseconds', () => {
+    const date = new Date('2024-05-01T12:30:00.123Z');
+    expect(Timestamp.fromDate(date)).toEqual(new Timestamp(1714566600, 123000000));
+    expect(Timestamp.fromString('2024-05-01T12:30:00.123999999Z').toDate()).toEqual(date);
+    expect(Timestamp.fromMillis(-1).toISOString()).toBe('1969-12-31T23:59:59.999Z');
+    expect(new Timestamp(-1, 999000000).toMillis()).toBe(-1);
+  });
+
+  it('compares by value', () => {
+    const earlier = new Timestamp(-5, 999999999);
+    const later = new Timestamp(-4, 0);
+    expect(earlier < later).toBe(true);
+    expect(new Timestamp(10, 2) > new Timestamp(10, 1)).toBe(true);
+    expect(earlier.isEqual(new Timestamp(-5, 999999999))).toBe(true);
+    expect(earlier.isEqual(later)).toBe(false);
+  });
+});
+
+
+describe('useTimestamps', () => {
+  const value = { timestampValue: '2024-05-01T12:30:00.123456789Z' };
+
+  it('decodes timestamps to Dates by default', () => {
+    expect(decodeValue(firestore, value)).toEqual(new Date('2024-05-01T12:30:00.123Z'));
+  });
+
+  it('decodes timestamps to Timestamps when set', () => {
+    expect(decodeValue(timestampFirestore, value)).toEqual(new Timestamp(1714566600, 123456789));
+  });
+
+  it('encodes Timestamps without losing precision', () => {
+    expect(encodeValue(new Timestamp(1714566600, 123456789))).toEqual(value);
+  });
+
+  it('exposes exact document times on snapshots', () => {
+    const ref = firestore.doc('users/ada');
+    const snapshot = new DocumentSnapshot(ref, {
+      name: ref.qualifiedPath,
+      fields: {},
+      createTime: '2024-05-01T12:30:00.000000001Z',
+      updateTime: '2024-05-01T12:30:00.000000002Z',
+    }, '2024-05-01T12:30:00.000000003Z');
+    expect(snapshot.createTimestamp.nanoseconds).toBe(1);
+    expect(snapshot.updateTimestamp.nanoseconds).toBe(2);
+    expect(snapshot.readTimestamp.nanoseconds).toBe(3);
+  });
+
+  it('uses stored values for snapshot cursors so timestamps keep their precision', () => {
+    const ref = firestore.doc('events/1');
+    const snapshot = new DocumentSnapshot(ref, { name: ref.qualifiedPath, fields: { at: value } });
+    const query = firestore.collection('events').orderBy('at').startAfter(snapshot);
+    expect(query[structuredQuerySymbol]().startAt.values).toEqual([ value, { referenceValue: ref.qualifiedPath } ]);
+  });
+});
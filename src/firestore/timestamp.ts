@@ -0,0 +1,88 @@
+const MIN_SECONDS = -62135596800; // 0001-01-01T00:00:00Z
+const MAX_SECONDS = 253402300799; // 9999-12-31T23:59:59Z
+const TIMESTAMP_RE = /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)(?:\.(\d{1,9}))?(Z|[+-]\d\d:\d\d)$/i;
+
+
+/**
+ * A point in time with nanosecond precision, as stored by Firestore. Timestamp fields are decoded to Timestamps
+ * instead of Dates when the `useTimestamps` setting is enabled. Dates only hold milliseconds, so a Timestamp must be
+ * used wherever an exact time matters, such as query cursors and `lastUpdateTime` preconditions.
+ */
+export class Timestamp {
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static fromMillis(milliseconds: number): Timestamp {
+    const seconds = Math.floor(milliseconds / 1000);
+    const nanoseconds = Math.round((milliseconds - seconds * 1000) * 1e6);
+    return new Timestamp(seconds, nanoseconds);
+  }
+
+  /**
+   * Parses an RFC 3339 timestamp as returned by the Firestore API, e.g. `2024-05-01T12:30:00.123456789Z`.
+   */
+  static fromString(value: string): Timestamp {
+    const match = TIMESTAMP_RE.exec(value);
+    if (!match) throw new Error(`Invalid timestamp: '${value}'`);
+    const [ , dateTime, fraction = '', offset ] = match;
+    const seconds = Date.parse(dateTime + offset) / 1000;
+    return new Timestamp(seconds, parseInt(fraction.padEnd(9, '0'), 10));
+  }
+
+  constructor(readonly seconds: number, readonly nanoseconds: number) {
+    if (!Number.isInteger(seconds) || seconds < MIN_SECONDS || seconds > MAX_SECONDS) {
+      throw new Error(`Timestamp seconds out of range: ${seconds}`);
+    }
+    if (!Number.isInteger(nanoseconds) || nanoseconds < 0 || nanoseconds >= 1e9) {
+      throw new Error(`Timestamp nanoseconds out of range: ${nanoseconds}`);
+    }
+  }
+
+  /**
+   * Converts to a Date, losing any precision below a millisecond.
+   */
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return other instanceof Timestamp && this.seconds === other.seconds && this.nanoseconds === other.nanoseconds;
+  }
+
+  /**
+   * Formats as RFC 3339 in UTC with as many fractional digits as needed, e.g. `2024-05-01T12:30:00.123456Z`.
+   */
+  toISOString(): string {
+    const dateTime = new Date(this.seconds * 1000).toISOString().slice(0, 19);
+    let fraction = String(this.nanoseconds).padStart(9, '0');
+    while (fraction.endsWith('000')) fraction = fraction.slice(0, -3);
+    return `${dateTime}${fraction ? '.' + fraction : ''}Z`;
+  }
+
+  toJSON() {
+    return this.toISOString();
+  }
+
+  toString() {
+    return `Timestamp(seconds=${this.seconds}, nanoseconds=${this.nanoseconds})`;
+  }
+
+  /**
+   * Allows Timestamps to be compared with `<` and `>`.
+   */
+  valueOf(): string {
+    // Offset seconds so they are never negative, and pad both parts so they compare as strings
+    const seconds = String(this.seconds - MIN_SECONDS).padStart(12, '0');
+    const nanoseconds = String(this.nanoseconds).padStart(9, '0');
+    return `${seconds}.${nanoseconds}`;
+  }
+}
@@ -0,0 +1,110 @@
+import { DocumentSnapshot } from './document';
+import type { Firestore } from './firestore';
+import { DocumentReference, Query, QuerySnapshot } from './reference';
+import { batchSymbol, cacheSymbol, commitSymbol, rollbackSymbol, transactionSymbol, writesSymbol } from './symbols';
+import type {
+  ConsistencyOptions, DocumentData, PartialWithFieldValue, Precondition, ReadOptions, SetOptions, UpdateData,
+  WithFieldValue, api
+} from './types';
+import { WriteBatch } from './write-batch';
+
+
+/**
+ * A reference to a transaction, passed to the update function of `Firestore.runTransaction()`. All reads must be
+ * executed before any writes. Writes are queued up and committed together once the update function resolves.
+ */
+export class Transaction {
+  private [transactionSymbol]: ConsistencyOptions;
+  private [batchSymbol]: WriteBatch;
+
+  constructor(readonly firestore: Firestore, consistency: ConsistencyOptions, readonly readOnly = false) {
+    this[transactionSymbol] = consistency;
+    this[batchSymbol] = new WriteBatch(firestore);
+  }
+
+  /**
+   * The id of the transaction on the server, or undefined for read-only transactions pinned to a `readTime`.
+   */
+  get id(): string {
+    return this[transactionSymbol].transaction;
+  }
+
+  get<T = DocumentData>(ref: DocumentReference<T>, options?: ReadOptions): Promise<DocumentSnapshot<T>>;
+  get<T = DocumentData>(query: Query<T>): Promise<QuerySnapshot<T>>;
+  async get<T = DocumentData>(
+    refOrQuery: DocumentReference<T> | Query<T>,
+    options?: ReadOptions
+  ): Promise<DocumentSnapshot<T> | QuerySnapshot<T>> {
+    this.checkRead();
+    if (refOrQuery instanceof DocumentReference) {
+      return (await this.firestore.batchGet([ refOrQuery ], options?.fieldMask, this[transactionSymbol]))[0];
+    }
+    return refOrQuery.get(this[transactionSymbol]);
+  }
+
+  /**
+   * Retrieves multiple documents. A `ReadOptions` object may be passed as the last argument to limit the fields
+   * returned.
+   */
+  async getAll<T = DocumentData>(
+    ...refsOrReadOptions: Array<DocumentReference<T> | ReadOptions>
+  ): Promise<Array<DocumentSnapshot<T>>> {
+    this.checkRead();
+    const last = refsOrReadOptions[refsOrReadOptions.length - 1];
+    const options = last instanceof DocumentReference ? undefined : refsOrReadOptions.pop() as ReadOptions;
+    const refs = refsOrReadOptions as Array<DocumentReference<T>>;
+    if (!refs.length) return [];
+    return this.firestore.batchGet(refs, options?.fieldMask, this[transactionSymbol]);
+  }
+
+  create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
+    this.checkWrite();
+    this[batchSymbol].create(ref, data);
+    return this;
+  }
+
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options: SetOptions): this;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
+  set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this {
+    this.checkWrite();
+    this[batchSymbol].set(ref, data, options);
+    return this;
+  }
+
+  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): this {
+    this.checkWrite();
+    this[batchSymbol].update(ref, data, precondition);
+    return this;
+  }
+
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): this {
+    this.checkWrite();
+    this[batchSymbol].delete(ref, precondition);
+    return this;
+  }
+
+  async [commitSymbol](): Promise<void> {
+    if (!this.id) return;
+    const request: api.CommitRequest = { writes: this[batchSymbol][writesSymbol], transaction: this.id };
+    await this.firestore.request<api.CommitResponse>('POST', ':commit', request);
+    await this.firestore[cacheSymbol]?.invalidate(request.writes);
+  }
+
+  async [rollbackSymbol](): Promise<void> {
+    if (!this.id) return;
+    const request: api.RollbackRequest = { transaction: this.id };
+    await this.firestore.request('POST', ':rollback', request);
+  }
+
+  private checkRead() {
+    if (this[batchSymbol].length) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+  }
+
+  private checkWrite() {
+    if (this.readOnly) {
+      throw new Error('Firestore read-only transactions cannot execute writes.');
+    }
+  }
+}
@@ -1,4 +1,11 @@
+import type { AggregateField } from './aggregate';
+import type { BulkWriter } from './bulk-writer';
+import type { DocumentSnapshot } from './document';
+import type { FieldPath } from './field-path';
 import type { FieldValue } from './field-value';
+import type { QueryOptions } from './reference';
+import type { VectorValue } from './serializer';
+import type { Timestamp } from './timestamp';
 
 /**
  * Document data (for use with `DocumentReference.set()`) consists of fields
@@ -111,7 +118,38 @@ export type UnionToIntersection<U> = (
   ? I
   : never;
 
-export type SetOptions = { readonly merge?: boolean };
+export type SetOptions = {
+  readonly merge?: boolean;
+  readonly mergeFields?: Array<string | FieldPath>;
+  readonly lastUpdateTime?: Timestamp;
+};
+
+/**
+ * A condition the document must meet on the server for a write to succeed. `lastUpdateTime` allows optimistic
+ * concurrency without a transaction: pass the `updateTimestamp` of the snapshot the write is based on.
+ */
+export interface Precondition {
+  readonly exists?: boolean;
+  readonly lastUpdateTime?: Timestamp;
+}
+
+/**
+ * Converts between a custom model type and the plain document data stored in Firestore. Attach one with
+ * `withConverter()` on a reference or query to read and write documents as `T`.
+ */
+export interface FirestoreDataConverter<T> {
+  /**
+   * Called when writing with `set()` or `create()`. Not called for `update()`, which takes document data directly.
+   * When `set()` is called with options, the model may be partial.
+   */
+  toFirestore(modelObject: WithFieldValue<T>): DocumentData;
+  toFirestore(modelObject: PartialWithFieldValue<T>, options: SetOptions): DocumentData;
+
+  /**
+   * Called when reading a document, with a snapshot of the plain document data.
+   */
+  fromFirestore(snapshot: DocumentSnapshot<DocumentData>): T;
+}
 
 export type WhereFilterOp =
     | '<'
@@ -128,13 +166,196 @@ export type WhereFilterOp =
 
 export type OrderByDirection = 'desc' | 'asc';
 
+/**
+ * The aggregations to calculate in an aggregate query, keyed by the alias of each result.
+ */
+export type AggregateSpec = {[alias: string]: AggregateField<any>};
+
+/**
+ * The results of an aggregate query, typed from the `AggregateSpec` which created it.
+ */
+export type AggregateSpecData<T extends AggregateSpec> = {
+  [K in keyof T]: T[K] extends AggregateField<infer U> ? U : never;
+};
+
+export interface ReadTimeOptions {
+  /**
+   * Reads data as it was at the given time, e.g. so that several reads see the database at the same moment. Must be
+   * within the last hour, or a whole minute within the version retention period when point-in-time recovery is on.
+   */
+  readTime?: Date;
+}
+
+export interface QueryStreamOptions extends ReadTimeOptions {
+  /** The number of documents fetched per request, defaults to 300. */
+  pageSize?: number;
+}
+
+export interface ListDocumentsOptions extends ReadTimeOptions {
+  /** The number of documents fetched per request. */
+  pageSize?: number;
+  /** The fields to return for each document, all fields are returned when omitted. */
+  fieldMask?: Array<string | FieldPath>;
+  /** Include documents which don't exist but have subcollections, defaults to true. Cannot be used with `orderBy`. */
+  showMissing?: boolean;
+  /** The order to return documents in, e.g. `'priority desc, __name__'`. */
+  orderBy?: string;
+}
+
+export interface ListCollectionsOptions extends ReadTimeOptions {
+  /** The number of collection ids fetched per request. */
+  pageSize?: number;
+}
+
+export interface BulkWriterOptions {
+  /** The maximum number of writes sent in each request, at most 500 (the default). */
+  batchSize?: number;
+  /** The maximum number of requests in flight at once, defaults to 5. */
+  maxConcurrency?: number;
+  /** The number of times a write is attempted before failing when using the default error handling, defaults to 10. */
+  maxAttempts?: number;
+}
+
+export interface RecursiveDeleteOptions {
+  /** The BulkWriter used for the deletes, a new one is created when omitted. */
+  bulkWriter?: BulkWriter;
+  /** The number of document names fetched per query request, defaults to 1000. */
+  pageSize?: number;
+  /**
+   * The maximum number of descendant documents to delete in this call, to stay within the subrequest limits of a
+   * single Worker invocation. Call again until the result is `done` to delete the rest.
+   */
+  limit?: number;
+  /** Called with the total number of documents deleted so far after each delete succeeds. */
+  onProgress?: (deleted: number) => void;
+}
+
+export interface RecursiveDeleteResult {
+  deleted: number;
+  done: boolean;
+}
+
+export interface ExportOptions extends ReadTimeOptions {
+  /** Include the documents in every subcollection, at any depth. */
+  recursive?: boolean;
+  /** The number of documents fetched per query request, defaults to 300. */
+  pageSize?: number;
+}
+
+/** A document as exported by `Firestore.exportDocuments()`, one per line. */
+export interface ExportedDocument {
+  /** The document's path, e.g. `'users/u1/posts/p1'`. */
+  path: string;
+  /** The document's fields as typed values, exactly as stored. */
+  fields: api.MapValue;
+  createTime: string;
+  updateTime: string;
+}
+
+export interface ImportOptions {
+  /** The BulkWriter used for the writes, a new one is created when omitted. */
+  bulkWriter?: BulkWriter;
+  /** Called with the total number of documents written so far after each write succeeds. */
+  onProgress?: (imported: number) => void;
+}
+
 export interface ReadTransactionOptions {
   transaction?: string;
   readTime?: string;
 }
 
 export interface ReadOptions {
-  readonly fieldMask?: string[];
+  readonly fieldMask?: Array<string | FieldPath>;
+}
+
+export interface TransactionOptions {
+  /** Run the transaction without acquiring locks. Writes are not allowed. */
+  readOnly?: boolean;
+  /** Only for read-only transactions, reads documents as they were at the given time. */
+  readTime?: Date;
+  /** The number of times the update function is attempted before failing, defaults to 5. */
+  maxAttempts?: number;
+}
+
+export type DistanceMeasure = 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
+
+export interface VectorQueryOptions {
+  /** The field holding the vectors to compare, which needs a vector index. */
+  vectorField: string | FieldPath;
+  queryVector: VectorValue | number[];
+  /** The number of nearest documents to return, at most 1000. */
+  limit: number;
+  distanceMeasure: DistanceMeasure;
+  /** A field to return each document's distance from the query vector in. */
+  distanceResultField?: string | FieldPath;
+  /** Only return documents within this distance, or with DOT_PRODUCT, at least this similar. */
+  distanceThreshold?: number;
+}
+
+export interface ExplainOptions {
+  /** Run the query and return its results and execution stats, rather than only planning it. */
+  readonly analyze?: boolean;
+}
+
+export interface ExplainMetrics {
+  planSummary: PlanSummary;
+  /** Only returned when the query was run with `analyze`. */
+  executionStats: ExecutionStats | null;
+}
+
+export interface PlanSummary {
+  /** The indexes used, e.g. `{ query_scope: 'Collection', properties: '(status ASC, __name__ ASC)' }`. */
+  indexesUsed: Array<Record<string, unknown>>;
+}
+
+export interface ExecutionStats {
+  resultsReturned: number;
+  /** The time spent running the query on the server, in milliseconds. */
+  executionDuration: number;
+  /** The read operations billed for the query. */
+  readOperations: number;
+  documentsScanned: number;
+  /** Further stats, which may change, such as `index_entries_scanned`. */
+  debugStats: Record<string, unknown>;
+}
+
+export interface ExplainResults<T> {
+  metrics: ExplainMetrics;
+  /** The query results, only returned when the query was run with `analyze`. */
+  snapshot: T | null;
+}
+
+/** A `Query` as JSON, for passing it to another Worker. */
+export interface QueryData {
+  /** The path of the collection the query runs against. */
+  path: string;
+  query: QueryOptions;
+}
+
+/** A `QueryPartition` as JSON, for passing it to another Worker. */
+export interface QueryPartitionData extends QueryData {
+  startAt?: string;
+  endBefore?: string;
+}
+
+/**
+ * Where the document cache keeps documents, keyed by their full names. `MemoryCacheStore`, `CacheApiStore` and
+ * `KVCacheStore` are provided.
+ */
+export interface DocumentCacheStore {
+  get(key: string): Promise<api.BatchGetResponse | undefined>;
+  /** `ttl` is in seconds. */
+  put(key: string, value: api.BatchGetResponse, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DocumentCacheSettings {
+  store: DocumentCacheStore;
+  /**
+   * Seconds to cache documents for by collection path, e.g. `'config'` or `'users/u1/settings'`, or by collection id
+   * for every collection with that id. Documents in other collections aren't cached.
+   */
+  ttls: Record<string, number>;
 }
 
 export interface ConsistencyOptions {
@@ -152,7 +373,7 @@ export namespace api {
     nullValue?: null;
     booleanValue?: boolean;
     integerValue?: string;
-    doubleValue?: number;
+    doubleValue?: number | string;
     timestampValue?: string;
     stringValue?: string;
     bytesValue?: string;
@@ -220,6 +441,10 @@ export namespace api {
     commitTime: string;
   }
 
+  export interface RollbackRequest {
+    transaction: string;
+  }
+
   export interface Write {
     updateMask?: DocumentMask;
     updateTransforms?: FieldTransform[];
@@ -271,7 +496,7 @@ export namespace api {
   }
 
   export interface CollectionSelector {
-    collectionId: string,
+    collectionId?: string,
     allDescendants?: boolean
   }
 
@@ -289,6 +514,16 @@ export namespace api {
     endAt?: Cursor;
     offset?: number;
     limit?: number;
+    findNearest?: FindNearest;
+  }
+
+  export interface FindNearest {
+    vectorField: FieldReference;
+    queryVector: Value;
+    distanceMeasure: DistanceMeasure;
+    limit: number;
+    distanceResultField?: string;
+    distanceThreshold?: number;
   }
 
   export interface StructuredQueryOrder {
@@ -296,6 +531,20 @@ export namespace api {
     direction?: StructuredQueryDirection;
   }
 
+  export interface StructuredAggregationQuery {
+    structuredQuery: StructuredQuery;
+    aggregations: Aggregation[];
+  }
+
+  export interface Aggregation {
+    alias?: string;
+    // Union field operator can be only one of the following:
+    count?: { upTo?: string };
+    sum?: { field: FieldReference };
+    avg?: { field: FieldReference };
+    // End of list of possible types for union field operator.
+  }
+
   export interface StructuredQueryProjection {
     fields?: FieldReference[];
   }
@@ -305,7 +554,7 @@ export namespace api {
     direction?: StructuredQueryDirection;
   }
 
-  export type CompositeFilterOperator = 'OPERATOR_UNSPECIFIED'| 'AND';
+  export type CompositeFilterOperator = 'OPERATOR_UNSPECIFIED'| 'AND'| 'OR';
   export type FieldFilterOperator = 'OPERATOR_UNSPECIFIED'| 'LESS_THAN'| 'LESS_THAN_OR_EQUAL'| 'GREATER_THAN'| 'GREATER_THAN_OR_EQUAL'| 'EQUAL'| 'NOT_EQUAL'| 'ARRAY_CONTAINS'| 'IN'| 'ARRAY_CONTAINS_ANY'| 'NOT_IN';
   export type UnaryFilterOperator = 'OPERATOR_UNSPECIFIED'| 'IS_NAN'| 'IS_NULL'| 'IS_NOT_NAN'| 'IS_NOT_NULL';
   export type StructuredQueryDirection = 'DIRECTION_UNSPECIFIED'| 'ASCENDING'| 'DESCENDING';
@@ -334,11 +583,11 @@ export namespace api {
   }
 
   export interface ReadOnly {
-    readTime: string;
+    readTime?: string;
   }
 
   export interface ReadWrite {
-    retryTransaction: string;
+    retryTransaction?: string;
   }
 
   export interface Precondition {
@@ -358,13 +607,46 @@ export namespace api {
     transformResults?: Value[];
   }
 
+  export interface ListCollectionIdsRequest {
+    pageSize?: number;
+    pageToken?: string;
+    readTime?: string;
+  }
+
   export interface ListCollectionIdsResponse {
-    collectionIds: string[];
+    collectionIds?: string[];
     nextPageToken?: string;
   }
 
   export interface ListDocumentsResponse {
-    documents: Document[];
+    documents?: Document[];
+    nextPageToken?: string;
+  }
+
+  export interface ExplainOptions {
+    analyze?: boolean;
+  }
+
+  export interface ExplainMetrics {
+    planSummary?: { indexesUsed?: Array<Record<string, unknown>> };
+    executionStats?: {
+      resultsReturned?: string;
+      executionDuration?: string;
+      readOperations?: string;
+      debugStats?: Record<string, any>;
+    };
+  }
+
+  export interface PartitionQueryRequest {
+    structuredQuery: StructuredQuery;
+    partitionCount: string;
+    pageToken?: string;
+    pageSize?: number;
+    readTime?: string;
+  }
+
+  export interface PartitionQueryResponse {
+    partitions?: Cursor[];
     nextPageToken?: string;
   }
 
@@ -375,12 +657,26 @@ export namespace api {
     readTime: string;
     skippedResults?: number;
     done?: boolean;
+    explainMetrics?: ExplainMetrics;
+  }
+
+  export interface RunAggregationQueryResponse {
+    error?: { code: number; message: string; status: string; };
+    result?: AggregationResult;
+    transaction?: string;
+    readTime: string;
+    explainMetrics?: ExplainMetrics;
+  }
+
+  export interface AggregationResult {
+    aggregateFields: {[key: string]: Value};
   }
 
   export interface Status {
     code: number;
     message: string;
-    details:{
+    status?: string;
+    details?: {
       '@type': string;
       [key: string]: any;
     }[];
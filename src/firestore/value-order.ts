@@ -0,0 +1,108 @@
+import { isVector, vectorValues } from './serializer';
+import { Timestamp } from './timestamp';
+import type { api } from './types';
+
+const numericIdPattern = /^__id(-?\d+)__$/;
+
+// Values of different types are ordered by type first, numbers of either kind sharing one place in the order and
+// vectors, which are stored as maps, coming between arrays and other maps
+const vectorTypeOrder = 9;
+const typeOrders: Record<string, number> = {
+  nullValue: 0,
+  booleanValue: 1,
+  integerValue: 2,
+  doubleValue: 2,
+  timestampValue: 3,
+  stringValue: 4,
+  bytesValue: 5,
+  referenceValue: 6,
+  geoPointValue: 7,
+  arrayValue: 8,
+  mapValue: 10,
+};
+
+
+/**
+ * The position of a value's type in Firestore's ordering of types. Range filters only match values of the same type.
+ */
+export function typeOrder(value: api.Value): number {
+  if (isVector(value)) return vectorTypeOrder;
+  const order = typeOrders[Object.keys(value)[0]];
+  if (order === undefined) throw new Error(`Unsupported value: ${JSON.stringify(value)}`);
+  return order;
+}
+
+/**
+ * Compares two encoded values the way Firestore orders them in queries, returning a negative number, zero, or a
+ * positive number.
+ */
+export function compareValues(a: api.Value, b: api.Value): number {
+  const order = typeOrder(a) - typeOrder(b);
+  if (order) return Math.sign(order);
+  if ('nullValue' in a) return 0;
+  if ('booleanValue' in a) return compare(Number(a.booleanValue), Number(b.booleanValue));
+  if ('timestampValue' in a) {
+    return compare(Timestamp.fromString(a.timestampValue).valueOf(), Timestamp.fromString(b.timestampValue).valueOf());
+  }
+  if ('stringValue' in a) return compareStrings(a.stringValue, b.stringValue);
+  // Decoded base64 is a string of byte values, which compares the same as the bytes
+  if ('bytesValue' in a) return compare(atob(a.bytesValue), atob(b.bytesValue));
+  if ('referenceValue' in a) {
+    return compareLists(a.referenceValue.split('/'), b.referenceValue.split('/'), compareSegments);
+  }
+  if ('geoPointValue' in a) {
+    const { latitude = 0, longitude = 0 } = a.geoPointValue;
+    return compare(latitude, b.geoPointValue.latitude || 0) || compare(longitude, b.geoPointValue.longitude || 0);
+  }
+  if ('arrayValue' in a) return compareLists(a.arrayValue.values || [], b.arrayValue.values || [], compareValues);
+  if (isVector(a)) {
+    // Shorter vectors sort first, whatever their values
+    const valuesA = vectorValues(a);
+    const valuesB = vectorValues(b);
+    return compare(valuesA.length, valuesB.length) || compareLists(valuesA, valuesB, compare);
+  }
+  if ('mapValue' in a) {
+    const entries = (map: api.Value) =>
+      Object.entries(map.mapValue.fields || {}).sort(([ x ], [ y ]) => compareStrings(x, y));
+    return compareLists(entries(a), entries(b), ([ keyA, valueA ], [ keyB, valueB ]) =>
+      compareStrings(keyA, keyB) || compareValues(valueA, valueB));
+  }
+  return compareNumbers(a, b);
+}
+
+export function isNaNValue(value: api.Value) {
+  return value && 'doubleValue' in value && isNaN(Number(value.doubleValue));
+}
+
+function compareNumbers(a: api.Value, b: api.Value) {
+  if ('integerValue' in a && 'integerValue' in b) return compare(BigInt(a.integerValue), BigInt(b.integerValue));
+  // NaN sorts before all other numbers
+  if (isNaNValue(a) || isNaNValue(b)) return compare(Number(!isNaNValue(a)), Number(!isNaNValue(b)));
+  return compare(Number(a.integerValue ?? a.doubleValue), Number(b.integerValue ?? b.doubleValue));
+}
+
+// Strings are ordered by their UTF-8 bytes, which matches code point order but not the UTF-16 order of `<`
+function compareStrings(a: string, b: string) {
+  return compareLists(Array.from(a, char => char.codePointAt(0)), Array.from(b, char => char.codePointAt(0)), compare);
+}
+
+// Ids like `__id123__` are numeric ids, which sort before all other ids in the order of their numbers
+function compareSegments(a: string, b: string) {
+  const idA = a.match(numericIdPattern)?.[1];
+  const idB = b.match(numericIdPattern)?.[1];
+  if (idA !== undefined && idB !== undefined) return compare(BigInt(idA), BigInt(idB));
+  if (idA !== undefined || idB !== undefined) return idA !== undefined ? -1 : 1;
+  return compareStrings(a, b);
+}
+
+function compareLists<T>(a: T[], b: T[], compareItems: (a: T, b: T) => number) {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const result = compareItems(a[i], b[i]);
+    if (result) return result;
+  }
+  return compare(a.length, b.length);
+}
+
+function compare<T extends number | bigint | string>(a: T, b: T) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from '../app';
+import { FieldValue } from './field-value';
+import type { Firestore } from './firestore';
+import { MemoryBackend } from './memory-backend';
+import { VectorValue } from './serializer';
+import { structuredQuerySymbol, writesSymbol } from './symbols';
+
+let firestore: Firestore;
+
+beforeEach(async () => {
+  const backend = new MemoryBackend();
+  firestore = new App({ projectId: 'test', getToken: async () => 'token', fetch: backend.fetch }, 'key').firestore();
+  const batch = firestore.batch();
+  batch.set(firestore.doc('items/a'), { kind: 'fruit', embedding: FieldValue.vector([ 1, 0 ]) });
+  batch.set(firestore.doc('items/b'), { kind: 'fruit', embedding: FieldValue.vector([ 0, 1 ]) });
+  batch.set(firestore.doc('items/c'), { kind: 'veg', embedding: FieldValue.vector([ 1, 1 ]) });
+  batch.set(firestore.doc('items/d'), { kind: 'fruit', embedding: FieldValue.vector([ 1, 2, 3 ]) });
+  await batch.commit();
+});
+
+function ids(snapshot: { docs: Array<{ ref: { id: string } }> }) {
+  return snapshot.docs.map(doc => doc.ref.id);
+}
+
+
+describe('VectorValue', () => {
+  it('stores vectors as maps with the vector type', () => {
+    const batch = firestore.batch().set(firestore.doc('items/e'), { embedding: FieldValue.vector([ 1, 0.5 ]) });
+    expect(batch[writesSymbol][0].update.fields.embedding).toEqual({
+      mapValue: {
+        fields: {
+          __type__: { stringValue: '__vector__' },
+          value: { arrayValue: { values: [{ doubleValue: '1' }, { doubleValue: '0.5' }] } },
+        },
+      },
+    });
+  });
+
+  it('keeps NaN, infinite and negative zero values', async () => {
+    const values = [ NaN, Infinity, -Infinity, -0 ];
+    const batch = firestore.batch().set(firestore.doc('items/e'), { embedding: FieldValue.vector(values) });
+    expect(batch[writesSymbol][0].update.fields.embedding.mapValue.fields.value.arrayValue.values).toEqual([
+      { doubleValue: 'NaN' }, { doubleValue: 'Infinity' }, { doubleValue: '-Infinity' }, { doubleValue: '-0' },
+    ]);
+    await batch.commit();
+    expect((await firestore.doc('items/e').get()).get('embedding').toArray()).toEqual(values);
+  });
+
+  it('merges vectors as a whole', () => {
+    const data = { embedding: FieldValue.vector([ 1 ]) };
+    const batch = firestore.batch().set(firestore.doc('items/e'), data, { merge: true });
+    expect(batch[writesSymbol][0].updateMask).toEqual({ fieldPaths: [ 'embedding' ] });
+  });
+
+  it('copies its values and compares them', () => {
+    const values = [ 1, 2 ];
+    const vector = new VectorValue(values);
+    values.push(3);
+    expect(vector.toArray()).toEqual([ 1, 2 ]);
+    expect(vector.isEqual(new VectorValue([ 1, 2 ]))).toBe(true);
+    expect(vector.isEqual(new VectorValue([ 1, 2, 3 ]))).toBe(false);
+    expect(() => new VectorValue([ '1' as any ])).toThrow('Vector values must be numbers');
+  });
+
+  it('reads vectors back from documents', async () => {
+    const embedding = (await firestore.doc('items/a').get()).get('embedding');
+    expect(embedding).toBeInstanceOf(VectorValue);
+    expect(embedding.toArray()).toEqual([ 1, 0 ]);
+  });
+});
+
+
+describe('findNearest', () => {
+  it('encodes the vector search in the query', () => {
+    const query = firestore.collection('items').findNearest({
+      vectorField: 'embedding',
+      queryVector: [ 1, 0 ],
+      limit: 2,
+      distanceMeasure: 'COSINE',
+      distanceResultField: 'distance',
+      distanceThreshold: 0.5,
+    });
+    expect(query[structuredQuerySymbol]().findNearest).toEqual({
+      vectorField: { fieldPath: 'embedding' },
+      queryVector: {
+        mapValue: {
+          fields: {
+            __type__: { stringValue: '__vector__' },
+            value: { arrayValue: { values: [{ doubleValue: '1' }, { doubleValue: '0' }] } },
+          },
+        },
+      },
+      distanceMeasure: 'COSINE',
+      limit: 2,
+      distanceResultField: 'distance',
+      distanceThreshold: 0.5,
+    });
+  });
+
+  it('returns the nearest documents first', async () => {
+    const query = firestore.collection('items')
+      .findNearest({ vectorField: 'embedding', queryVector: [ 1, 0.1 ], limit: 2, distanceMeasure: 'EUCLIDEAN' });
+    expect(ids(await query.get())).toEqual([ 'a', 'c' ]);
+  });
+
+  it('applies filters before searching', async () => {
+    const query = firestore.collection('items').where('kind', '==', 'fruit')
+      .findNearest({ vectorField: 'embedding', queryVector: [ 1, 1 ], limit: 3, distanceMeasure: 'DOT_PRODUCT' });
+    expect(ids(await query.get())).toEqual([ 'a', 'b' ]);
+  });
+
+  it('returns distances and leaves out documents past the threshold', async () => {
+    const query = firestore.collection('items').findNearest({
+      vectorField: 'embedding',
+      queryVector: FieldValue.vector([ 1, 0 ]),
+      limit: 3,
+      distanceMeasure: 'EUCLIDEAN',
+      distanceResultField: 'distance',
+      distanceThreshold: 1,
+    });
+    const snapshot = await query.get();
+    expect(snapshot.docs.map(doc => [ doc.ref.id, doc.get('distance') ])).toEqual([ [ 'a', 0 ], [ 'c', 1 ] ]);
+  });
+
+  it('rejects empty query vectors and invalid limits', () => {
+    const items = firestore.collection('items');
+    const options = { vectorField: 'embedding', distanceMeasure: 'COSINE' as const };
+    expect(() => items.findNearest({ ...options, queryVector: [], limit: 1 })).toThrow('at least one value');
+    for (const limit of [ 0, 1.5, 1001 ]) {
+      expect(() => items.findNearest({ ...options, queryVector: [ 1 ], limit })).toThrow('a limit between 1 and 1000');
+    }
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../app';
+import { FieldPath } from './field-path';
+import { FieldValue } from './field-value';
+import { writesSymbol } from './symbols';
+import { Timestamp } from './timestamp';
+import type { DocumentData } from './types';
+import type { WriteBatch } from './write-batch';
+
+const firestore = new App({ projectId: 'test', getToken: async () => 'token' }, 'key').firestore();
+const ref = firestore.doc('users/ada');
+
+function write(build: (batch: WriteBatch) => void) {
+  const batch = firestore.batch();
+  build(batch);
+  return batch[writesSymbol][0];
+}
+
+
+describe('update', () => {
+  it('updates only the given fields', () => {
+    expect(write(batch => batch.update(ref, { name: 'Ada', profile: { city: 'London' } }))).toMatchObject({
+      update: { fields: { name: { stringValue: 'Ada' }, profile: { mapValue: { fields: { city: { stringValue: 'London' } } } } } },
+      updateMask: { fieldPaths: [ 'name', 'profile.city' ] },
+    });
+  });
+
+  it('treats dotted keys as field paths', () => {
+    expect(write(batch => batch.update(ref, { 'profile.city': 'London', 'profile.zip': 'N1' }))).toMatchObject({
+      update: {
+        fields: { profile: { mapValue: { fields: { city: { stringValue: 'London' }, zip: { stringValue: 'N1' } } } } },
+      },
+      updateMask: { fieldPaths: [ 'profile.city', 'profile.zip' ] },
+    });
+  });
+
+  it('accepts quoted field path keys', () => {
+    expect(write(batch => batch.update(ref, { '`first.name`': 'Ada' })).updateMask).toEqual({
+      fieldPaths: [ '`first.name`' ],
+    });
+  });
+
+  it('rejects keys which conflict with each other', () => {
+    expect(() => write(batch => batch.update(ref, { 'profile': {}, 'profile.city': 'London' }))).toThrow(
+      "Field 'profile.city' conflicts with another updated field"
+    );
+  });
+
+  it('deletes fields set to FieldValue.delete()', () => {
+    expect(write(batch => batch.update(ref, { 'profile.city': FieldValue.delete(), name: 'Ada' }))).toMatchObject({
+      update: { fields: { profile: { mapValue: { fields: {} } }, name: { stringValue: 'Ada' } } },
+      updateMask: { fieldPaths: [ 'profile.city', 'name' ] },
+    });
+  });
+
+  it('sends only transforms when no fields change', () => {
+    expect(write(batch => batch.update(ref, { visits: FieldValue.increment(1) }))).toEqual({
+      transform: {
+        document: ref.qualifiedPath,
+        fieldTransforms: [{ fieldPath: 'visits', increment: { integerValue: '1' } }],
+      },
+      currentDocument: { exists: true },
+    });
+  });
+
+  it('skips updates which change nothing', () => {
+    expect(write(batch => batch.update(ref, {}))).toBeUndefined();
+  });
+});
+
+
+describe('set', () => {
+  it('replaces the whole document', () => {
+    expect(write(batch => batch.set(ref, { name: 'Ada' }))).toEqual({
+      update: { name: ref.qualifiedPath, fields: { name: { stringValue: 'Ada' } } },
+    });
+  });
+
+  it('merges the given fields', () => {
+    expect(write(batch => batch.set(ref, { profile: { city: 'London' } }, { merge: true })).updateMask).toEqual({
+      fieldPaths: [ 'profile.city' ],
+    });
+  });
+
+  it('writes only the listed mergeFields, each as a whole', () => {
+    const data: DocumentData = { name: 'Ada', profile: { city: 'London', zip: 'N1' }, age: 36 };
+    expect(write(batch => batch.set(ref, data, { mergeFields: [ 'name', new FieldPath('profile') ] }))).toMatchObject({
+      update: {
+        fields: {
+          name: { stringValue: 'Ada' },
+          profile: { mapValue: { fields: { city: { stringValue: 'London' }, zip: { stringValue: 'N1' } } } },
+        },
+      },
+      updateMask: { fieldPaths: [ 'name', 'profile' ] },
+    });
+  });
+
+  it('accepts nested mergeFields', () => {
+    const data = { profile: { city: 'London', zip: 'N1' } };
+    expect(write(batch => batch.set(ref, data, { mergeFields: [ 'profile.city' ] }))).toMatchObject({
+      update: { fields: { profile: { mapValue: { fields: { city: { stringValue: 'London' } } } } } },
+      updateMask: { fieldPaths: [ 'profile.city' ] },
+    });
+  });
+
+  it('deletes and transforms mergeFields', () => {
+    const data = { name: FieldValue.delete(), visits: FieldValue.increment(1), age: 36 };
+    expect(write(batch => batch.set(ref, data, { mergeFields: [ 'name', 'visits' ] }))).toMatchObject({
+      update: { fields: {} },
+      updateMask: { fieldPaths: [ 'name' ] },
+      updateTransforms: [{ fieldPath: 'visits', increment: { integerValue: '1' } }],
+    });
+  });
+
+  it('rejects mergeFields missing from the data', () => {
+    expect(() => write(batch => batch.set(ref, { name: 'Ada' }, { mergeFields: [ 'age' ] }))).toThrow(
+      "Input data is missing for field 'age'"
+    );
+  });
+
+  it('rejects FieldValue.delete() without merge', () => {
+    expect(() => write(batch => batch.set(ref, { name: FieldValue.delete() }))).toThrow(
+      "FieldValue.delete() can only be used with update() or set() with merge, found at 'name'"
+    );
+  });
+
+  it('rejects FieldValue.delete() in arrays', () => {
+    expect(() => write(batch => batch.update(ref, { tags: [ FieldValue.delete() ] }))).toThrow(
+      'FieldValue.delete() can only be used as a field value'
+    );
+  });
+});
+
+
+describe('preconditions', () => {
+  const lastUpdateTime = new Timestamp(1714566600, 123456789);
+
+  it('requires that a created document does not exist', () => {
+    expect(write(batch => batch.create(ref, { name: 'Ada' })).currentDocument).toEqual({ exists: false });
+  });
+
+  it('requires that an updated document exists', () => {
+    expect(write(batch => batch.update(ref, { name: 'Ada' })).currentDocument).toEqual({ exists: true });
+  });
+
+  it('sends the last update time with nanosecond precision', () => {
+    expect(write(batch => batch.update(ref, { name: 'Ada' }, { lastUpdateTime })).currentDocument).toEqual({
+      updateTime: '2024-05-01T12:30:00.123456789Z',
+    });
+    expect(write(batch => batch.set(ref, { name: 'Ada' }, { lastUpdateTime })).currentDocument).toEqual({
+      updateTime: '2024-05-01T12:30:00.123456789Z',
+    });
+    expect(write(batch => batch.delete(ref, { lastUpdateTime })).currentDocument).toEqual({
+      updateTime: '2024-05-01T12:30:00.123456789Z',
+    });
+  });
+
+  it('sends exists preconditions on deletes and updates', () => {
+    expect(write(batch => batch.delete(ref, { exists: true })).currentDocument).toEqual({ exists: true });
+    expect(write(batch => batch.update(ref, { name: 'Ada' }, { exists: false })).currentDocument).toEqual({
+      exists: false,
+    });
+  });
+
+  it('sends no precondition for set() and delete() by default', () => {
+    expect(write(batch => batch.set(ref, { name: 'Ada' })).currentDocument).toBeUndefined();
+    expect(write(batch => batch.set(ref, { name: 'Ada' }, { merge: true })).currentDocument).toBeUndefined();
+    expect(write(batch => batch.delete(ref)).currentDocument).toBeUndefined();
+  });
+});
+
+
+describe('commit', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('commits all writes atomically', async () => {
+    const requests: Array<{ url: URL, body: any }> = [];
+    vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+      requests.push({ url: new URL(input), body: JSON.parse(init.body as string) });
+      const writeResults = [{ updateTime: '2024-05-01T12:30:00Z' }, {}];
+      return new Response(JSON.stringify({ writeResults, commitTime: '2024-05-01T12:30:00Z' }));
+    });
+    const results = await firestore.batch().create(ref, { name: 'Ada' }).delete(firestore.doc('users/alan')).commit();
+    expect(requests[0].url.pathname).toBe(`/v1/${firestore.basePath}:commit`);
+    expect(requests[0].body.writes).toHaveLength(2);
+    expect(results).toEqual([ new Date('2024-05-01T12:30:00Z'), undefined ]);
+  });
+
+  it('commits empty batches and updates which change nothing', async () => {
+    const requests: any[] = [];
+    vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+      requests.push(JSON.parse(init.body as string));
+      return new Response(JSON.stringify({ commitTime: '2024-05-01T12:30:00Z' }));
+    });
+    expect(await firestore.batch().commit()).toEqual([]);
+    expect(await firestore.batch().update(ref, {}).commit()).toEqual([]);
+    expect(requests).toEqual([ { writes: [] }, { writes: [] } ]);
+  });
+
+  it('rejects when a precondition fails', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({
+      error: { code: 409, message: 'Document already exists', status: 'ALREADY_EXISTS' },
+    })));
+    await expect(firestore.batch().create(ref, { name: 'Ada' }).commit()).rejects.toMatchObject({
+      code: 409,
+      status: 'ALREADY_EXISTS',
+    });
+  });
+});
@@ -1,13 +1,17 @@
-import { UpdateCollector } from './field-value';
+import { FieldPath } from './field-path';
+import { FieldValue, UpdateCollector } from './field-value';
 import { Firestore } from './firestore';
 import { DocumentReference } from './reference';
-import { encode } from './serializer';
-import { updateSymbol, writesSymbol } from './symbols';
-import type { DocumentData, PartialWithFieldValue, SetOptions, UpdateData, WithFieldValue, api } from './types';
+import { encode, encodeValue } from './serializer';
+import { cacheSymbol, updateSymbol, writesSymbol } from './symbols';
+import type {
+  DocumentData, PartialWithFieldValue, Precondition, SetOptions, UpdateData, WithFieldValue, api
+} from './types';
+const hasOwnProperty = Object.prototype.hasOwnProperty;
 
 
 export class WriteBatch {
-  private [writesSymbol]: api.Write[] = [];
+  readonly [writesSymbol]: api.Write[] = [];
 
   constructor(readonly firestore: Firestore) {}
 
@@ -16,45 +20,73 @@ export class WriteBatch {
   }
 
   create<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
-    return this[updateSymbol](ref, data, UpdateType.create);
+    const fields = ref.converter ? ref.converter.toFirestore(data) : data;
+    return this[updateSymbol](ref, fields, UpdateType.create, { exists: false });
   }
 
   set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options: SetOptions): this;
   set<T = DocumentData>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
   set<T = DocumentData>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options?: SetOptions): this {
-    return this[updateSymbol](ref, data, options?.merge ? UpdateType.update : UpdateType.set);
+    let fields = data as DocumentData;
+    if (ref.converter) {
+      fields = options ? ref.converter.toFirestore(data, options) : ref.converter.toFirestore(data as WithFieldValue<T>);
+    }
+    const currentDocument = encodePrecondition({ lastUpdateTime: options?.lastUpdateTime });
+    const type = options?.merge || options?.mergeFields ? UpdateType.merge : UpdateType.set;
+    return this[updateSymbol](ref, fields, type, currentDocument, options?.mergeFields);
   }
 
-  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>): this {
-    return this[updateSymbol](ref, data, UpdateType.update);
+  /**
+   * Updates fields in an existing document. Keys may be field paths such as `'profile.name'`, which update a nested
+   * field without touching the rest of its map. The document must already exist, unless another precondition is given.
+   */
+  update<T = DocumentData>(ref: DocumentReference<T>, data: UpdateData<T>, precondition?: Precondition): this {
+    const currentDocument = encodePrecondition(precondition || { exists: true });
+    return this[updateSymbol](ref, expandFieldPaths(data as DocumentData), UpdateType.update, currentDocument);
   }
 
-  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: api.Precondition): this {
+  delete<T = DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): this {
     this[writesSymbol].push({
       delete: ref.qualifiedPath,
-      currentDocument: precondition
+      currentDocument: encodePrecondition(precondition),
     });
     return this;
   }
 
+  /**
+   * Commits all writes atomically. If any write fails, such as one whose precondition isn't met, none are applied and
+   * the error is thrown.
+   */
   async commit(): Promise<Date[]> {
     Object.freeze(this[writesSymbol]);
-    if (this.firestore[writesSymbol]) { // transaction
-      this.firestore[writesSymbol].push(...this[writesSymbol]);
-      return;
-    }
-    const response = await this.firestore.request<api.BatchWriteResponse>('POST', ':batchWrite', { writes: this[writesSymbol] });
-    return response.writeResults.map(result => result.updateTime && new Date(result.updateTime) || undefined);
+    const response = await this.firestore.request<api.CommitResponse>('POST', ':commit', { writes: this[writesSymbol] });
+    await this.firestore[cacheSymbol]?.invalidate(this[writesSymbol]);
+    // Firestore leaves out writeResults when there are none, e.g. for an empty batch
+    const { writeResults = [] } = response;
+    return writeResults.map(result => result.updateTime && new Date(result.updateTime) || undefined);
   }
 
-  [updateSymbol]<T = DocumentData>(ref: DocumentReference<T>, data: any, type: UpdateType): this {
+  [updateSymbol]<T = DocumentData>(
+    ref: DocumentReference<T>,
+    data: any,
+    type: UpdateType,
+    currentDocument?: api.Precondition,
+    mergeFields?: Array<string | FieldPath>,
+  ): this {
     const collector = new UpdateCollector();
-    const fields = encode(data, collector);
+    const fields = mergeFields ? encodeMergeFields(data, mergeFields, collector) : encode(data, collector);
+    const isPartial = type === UpdateType.update || type === UpdateType.merge;
+
+    if (collector.deletes.length && !isPartial) {
+      const field = collector.deletes[0];
+      throw new Error(`FieldValue.delete() can only be used with update() or set() with merge, found at '${field}'`);
+    }
 
-    if (!collector.mask.fieldPaths.length && type === UpdateType.update) {
+    if (!collector.mask.fieldPaths.length && isPartial) {
       if (collector.transforms.length) {
         this[writesSymbol].push({
           transform: { document: ref.qualifiedPath, fieldTransforms: collector.transforms },
+          currentDocument,
         });
       } else {
         // nothing changed, nothing to update, no-op
@@ -62,9 +94,9 @@ export class WriteBatch {
     } else {
       const write: api.Write = {
         update: { name: ref.qualifiedPath, fields },
-        updateMask: type === UpdateType.update ? collector.mask : undefined,
+        updateMask: isPartial ? collector.mask : undefined,
         updateTransforms: collector.transforms.length ? collector.transforms : undefined,
-        currentDocument: type === UpdateType.create ? { exists: true } : undefined,
+        currentDocument,
       };
       this[writesSymbol].push(write);
     }
@@ -73,5 +105,57 @@ export class WriteBatch {
 }
 
 enum UpdateType {
-  create, set, update,
+  create, set, update, merge,
+}
+
+// The API accepts either exists or updateTime, and an update time implies the document exists
+function encodePrecondition(precondition?: Precondition): api.Precondition {
+  if (precondition?.lastUpdateTime) return { updateTime: precondition.lastUpdateTime.toISOString() };
+  if (precondition?.exists !== undefined) return { exists: precondition.exists };
+}
+
+// Turns field path keys into nested maps, e.g. `{ 'a.b': 1 }` into `{ a: { b: 1 } }`
+function expandFieldPaths(data: DocumentData): DocumentData {
+  const expanded: DocumentData = {};
+  const created = new Set<DocumentData>([ expanded ]);
+  Object.entries(data).forEach(([ key, value ]) => {
+    const segments = FieldPath.from(key).segments;
+    const last = segments.pop();
+    let parent = expanded;
+    segments.forEach(segment => {
+      if (!hasOwnProperty.call(parent, segment)) created.add(parent[segment] = {});
+      else if (!created.has(parent[segment])) throw new Error(`Field '${key}' conflicts with another updated field`);
+      parent = parent[segment];
+    });
+    if (hasOwnProperty.call(parent, last)) throw new Error(`Field '${key}' conflicts with another updated field`);
+    parent[last] = value;
+  });
+  return expanded;
+}
+
+// Encodes only the listed fields, each replacing the whole field, with the listed fields as the mask
+function encodeMergeFields(data: DocumentData, mergeFields: Array<string | FieldPath>, collector: UpdateCollector) {
+  const fields: api.MapValue = {};
+  const fieldPaths: string[] = [];
+  mergeFields.forEach(field => {
+    const path = FieldPath.from(field);
+    let value: any = data;
+    path.segments.forEach(segment => value = typeof value === 'object' ? value?.[segment] : undefined);
+    if (value === undefined) throw new Error(`Input data is missing for field '${path}'`);
+
+    collector.paths = [ ...path.segments ];
+    const encoded = encodeValue(value, collector);
+    collector.paths = [];
+    if (!(value instanceof FieldValue) || value.transform === 'delete') fieldPaths.push(path.toString());
+    if (!encoded) return;
+
+    let parent = fields;
+    path.segments.slice(0, -1).forEach(segment => {
+      if (!parent[segment]?.mapValue) parent[segment] = { mapValue: { fields: {} } };
+      parent = parent[segment].mapValue.fields;
+    });
+    parent[path.segments[path.segments.length - 1]] = encoded;
+  });
+  collector.mask = { fieldPaths };
+  return fields;
 }
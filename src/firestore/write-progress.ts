@@ -0,0 +1,36 @@
+/**
+ * Tracks the BulkWriter writes of a long-running operation such as a recursive delete or an import. Progress is
+ * reported as writes succeed, and failures are collected so the operation can finish its other writes before it
+ * rejects.
+ */
+export class WriteProgress {
+  succeeded = 0;
+  private failed = 0;
+  private lastError: Error;
+
+  // `noun` names a write in the error message, e.g. 'delete'
+  constructor(readonly noun: string, readonly onProgress?: (succeeded: number) => void) {}
+
+  track(write: Promise<unknown>): void {
+    write.then(
+      () => {
+        this.succeeded++;
+        this.onProgress?.(this.succeeded);
+      },
+      error => {
+        this.failed++;
+        this.lastError = error;
+      }
+    );
+  }
+
+  /**
+   * Throws an error summarizing the failed writes, if any. Call it once the BulkWriter has been flushed.
+   */
+  throwIfFailed(): void {
+    if (!this.failed) return;
+    const { failed, noun, lastError } = this;
+    const writes = failed === 1 ? noun : `${noun}s`;
+    throw new Error(`${failed} ${writes} failed. The last ${noun} failed with: ${lastError.message}`);
+  }
+}
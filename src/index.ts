@@ -1,7 +1,19 @@
 export * from './app';
 export * from './auth/auth';
 export * from './auth/types';
+export * from './firestore/aggregate';
+export * from './firestore/bulk-writer';
+export { CacheApiStore, KVCacheStore, MemoryCacheStore } from './firestore/document-cache';
+export * from './firestore/field-path';
 export * from './firestore/field-value';
+export * from './firestore/filter';
 export * from './firestore/firestore';
+export * from './firestore/partition';
+export * from './firestore/query-error';
+export * from './firestore/reference';
+export { Bytes, GeoPoint, VectorValue } from './firestore/serializer';
+export * from './firestore/timestamp';
+export * from './firestore/transaction';
 export * from './firestore/types';
+export { KVTokenStore } from './tokens';
 export * from './types';
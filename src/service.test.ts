@@ -0,0 +1,69 @@
+import jwt from '@tsndr/cloudflare-worker-jwt';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from './app';
+
+const emulatorHosts = { firestore: 'localhost:8080', auth: 'localhost:9099' };
+const app = new App({ projectId: 'test', getToken: async () => 'token', emulatorHosts }, 'key');
+let requests: Array<{ url: URL, headers: Headers }>;
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    requests.push({ url: new URL(input), headers: new Headers(init.headers as Record<string, string>) });
+    return new Response(JSON.stringify({}));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+
+describe('emulatorHosts', () => {
+  it('sends Firestore requests to the Firestore emulator as the owner', async () => {
+    await app.firestore().doc('users/ada').update({ name: 'Ada' });
+    const [ { url, headers } ] = requests;
+    expect(url.origin).toBe('http://localhost:8080');
+    expect(url.pathname).toBe('/v1/projects/test/databases/(default)/documents:commit');
+    expect(headers.get('Authorization')).toBe('Bearer owner');
+  });
+
+  it('sends Auth requests to the Auth emulator under the production host name', async () => {
+    await app.auth().request('POST', 'accounts:lookup', { localId: [ 'ada' ] });
+    const [ { url, headers } ] = requests;
+    expect(url.origin).toBe('http://localhost:9099');
+    expect(url.pathname).toBe('/identitytoolkit.googleapis.com/v1/accounts:lookup');
+    expect(headers.get('Authorization')).toBe('Bearer owner');
+  });
+
+  it('refreshes tokens with the Auth emulator', async () => {
+    await app.auth().refreshToken('refresh');
+    expect(requests[0].url.href).toBe('http://localhost:9099/securetoken.googleapis.com/v1/token?key=key');
+  });
+
+  it('creates unsigned custom tokens', async () => {
+    const token = await app.auth().createCustomToken('ada');
+    expect(token.endsWith('.')).toBe(true);
+    const { header, payload } = jwt.decode(token) as { header: any, payload: any };
+    expect(header.alg).toBe('none');
+    expect(payload).toMatchObject({ uid: 'ada', iss: 'firebase-auth-emulator@example.com' });
+  });
+
+  it('accepts unsigned ID tokens from the emulator', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const encode = (part: object) => btoa(JSON.stringify(part)).replace(/=/g, '');
+    const payload = { iss: 'https://securetoken.google.com/test', sub: 'ada', exp };
+    const token = `${encode({ alg: 'none' })}.${encode(payload)}.`;
+    expect(await app.auth().verify(token)).toEqual(payload);
+    const other = `${encode({ alg: 'none' })}.${encode({ ...payload, iss: 'https://securetoken.google.com/other' })}.`;
+    await expect(app.auth().verify(other)).rejects.toThrow('JWT invalid');
+  });
+
+  it('uses production hosts for services without an emulator', async () => {
+    const settings = { projectId: 'test', getToken: async () => 'token', emulatorHosts: { auth: 'localhost:9099' } };
+    const firestore = new App(settings, 'key').firestore();
+    await firestore.doc('users/ada').update({ name: 'Ada' });
+    expect(requests[0].url.origin).toBe('https://firestore.googleapis.com');
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer token');
+  });
+});
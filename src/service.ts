@@ -1,5 +1,5 @@
 import { StatusError } from './status-error';
-import { Aud, getTokenGetter } from './tokens';
+import { Aud, getEmulatorTokenGetter, getTokenGetter } from './tokens';
 import type {
   HTTPMethod,
   ServiceAccount,
@@ -10,16 +10,20 @@ import type {
 
 export class FirebaseService {
   getToken: TokenGetter;
+  protected readonly apiUrl: string;
+  protected readonly emulatorHost: string | undefined;
 
   constructor(
     service: keyof Aud,
-    protected readonly apiUrl: string,
+    apiUrl: string,
     protected readonly settings: Settings,
     protected readonly apiKey: string
   ) {
-    this.getToken =
-      (settings as UserAccount).getToken ||
-      getTokenGetter(settings as ServiceAccount, service);
+    this.emulatorHost = settings.emulatorHosts?.[service];
+    this.apiUrl = this.emulatorHost ? emulatorUrl(service, this.emulatorHost, apiUrl) : apiUrl;
+    this.getToken = this.emulatorHost
+      ? getEmulatorTokenGetter(service)
+      : (settings as UserAccount).getToken || getTokenGetter(settings as ServiceAccount, service);
   }
 
   request<T>(
@@ -55,7 +59,7 @@ export class FirebaseService {
     } else if (authorized !== false) {
       Authorization = `Bearer ${await this.getToken()}`;
     }
-    const response = await fetch(`${this.apiUrl}${path}?${searchParams}`, {
+    const response = await (this.settings.fetch || fetch)(`${this.apiUrl}${path}?${searchParams}`, {
       method,
       body: JSON.stringify(body),
       headers: {
@@ -65,7 +69,7 @@ export class FirebaseService {
     });
     const data = (await response.json()) as any;
     if (data.error) {
-      throw new StatusError(data.error.code, data.error.message);
+      throw new StatusError(data.error.code, data.error.message, data.error.status);
     }
     return data;
   }
@@ -86,3 +90,8 @@ export class FirebaseService {
     return this.request(method, path, searchOrBody as any, body, false);
   }
 }
+
+// The Firestore emulator serves the API from its root, the Auth emulator under each API's production host name
+function emulatorUrl(service: keyof Aud, host: string, apiUrl: string) {
+  return service === 'firestore' ? `http://${host}/v1` : apiUrl.replace('https://', `http://${host}/`);
+}
@@ -1,7 +1,7 @@
 
 export class StatusError extends Error {
 
-  constructor(public code: number, message: string) {
+  constructor(public code: number, message: string, public status?: string) {
     super(message);
   }
 }
@@ -0,0 +1 @@
+export * from './firestore/memory-backend';
@@ -1,7 +1,9 @@
 import jwt from '@tsndr/cloudflare-worker-jwt';
-import type { ServiceAccount, TokenGetter } from './types';
+import { encodeBase64Url } from './base64url';
+import type { ServiceAccount, StoredToken, TokenGetter, TokenStore } from './types';
 
 const exp = 3600;
+const emulatorEmail = 'firebase-auth-emulator@example.com';
 const aud = {
   oauth: 'https://oauth2.googleapis.com/token',
   auth: 'https://identitytoolkit.googleapis.com/google.identity.identitytoolkit.v1.IdentityToolkit',
@@ -10,47 +12,98 @@ const aud = {
 
 export type Aud = Omit<typeof aud, 'oauth'>;
 
-export function getTokenGetter(settings: ServiceAccount, service: keyof Aud): TokenGetter {
-  let token: string;
-  let tokenExp: number;
 
+/**
+ * Stores access tokens in a KV namespace so every isolate can use them until they expire. Tokens grant access to the
+ * project, so the namespace should be kept private to the Worker.
+ */
+export class KVTokenStore implements TokenStore {
+
+  constructor(readonly namespace: KVNamespace, readonly prefix = 'token:') {}
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    return (await this.namespace.get<StoredToken>(this.prefix + key, 'json')) ?? undefined;
+  }
+
+  async put(key: string, token: StoredToken): Promise<void> {
+    // KV rejects expirations less than a minute away
+    const expiration = Math.max(token.expires, now() + 60);
+    await this.namespace.put(this.prefix + key, JSON.stringify(token), { expiration });
+  }
+}
+
+export function getTokenGetter(settings: ServiceAccount, service: keyof Aud): TokenGetter {
   const getOauthToken = getOauthTokenGetter(settings);
+  const getServiceToken = getCachedTokenGetter(settings, `${settings.clientEmail}/${service}`, async () => {
+    return { token: await createToken(settings, service), expires: now() + exp };
+  });
 
   return async function getToken(claims?: Record<string, any>) {
     if (claims) {
       return await (claims.scope ? getOauthToken(claims.scope) : createToken(settings, service, claims));
     }
+    return getServiceToken();
+  }
+}
 
-    if (!tokenExp || now() > tokenExp - 60) {
-      token = await createToken(settings, service);
-      tokenExp = now() + exp;
-    }
-    return token;
+/**
+ * Tokens for the local emulators, which accept `owner` as an admin token and custom tokens without a signature.
+ */
+export function getEmulatorTokenGetter(service: keyof Aud): TokenGetter {
+  return async function getToken(claims?: Record<string, any>) {
+    if (!claims || claims.scope) return 'owner';
+    const iat = now();
+    const payload = { aud: aud[service], iss: emulatorEmail, sub: emulatorEmail, iat, exp: iat + exp, ...claims };
+    return [ { alg: 'none', typ: 'JWT' }, payload ].map(part => encodeBase64Url(JSON.stringify(part))).join('.') + '.';
   }
 }
 
 export function getOauthTokenGetter(settings: ServiceAccount) {
-  const tokens = new Map<string, string>();
-  const tokenExps = new Map<string, number>();
+  const getters = new Map<string, () => Promise<string>>();
 
   return async function getOauthToken(scope: string) {
-    let token = tokens.get(scope);
-    const tokenExp = tokenExps.get(scope);
-
-    if (!tokenExp || now() > tokenExp - 60) {
-      const oauthToken = await createToken(settings, 'oauth', { scope });
-      const response = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        body: `grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Ajwt-bearer&assertion=&assertion=${oauthToken}`,
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      });
-      const { access_token, expires_in } = (await response.json()) as { access_token: string; expires_in: number };
-      tokens.set(scope, token = access_token);
-      tokenExps.set(scope, now() + (expires_in || 0));
+    if (!getters.has(scope)) {
+      getters.set(scope, getCachedTokenGetter(settings, `${settings.clientEmail}/oauth/${scope}`, async () => {
+        const oauthToken = await createToken(settings, 'oauth', { scope });
+        const response = await fetch('https://oauth2.googleapis.com/token', {
+          method: 'POST',
+          body: `grant_type=urn%3Aietf%3Aparams%3Aoauth%3Agrant-type%3Ajwt-bearer&assertion=&assertion=${oauthToken}`,
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+        const { access_token, expires_in } = (await response.json()) as { access_token: string; expires_in: number };
+        return { token: access_token, expires: now() + (expires_in || 0) };
+      }));
     }
+    return getters.get(scope)();
+  }
+}
+
+// Keeps a token in memory and in the settings' token store until a minute before it expires. Concurrent callers share
+// one refresh, and a failing store is skipped rather than failing the request.
+function getCachedTokenGetter(settings: ServiceAccount, key: string, create: () => Promise<StoredToken>) {
+  let cached: StoredToken;
+  let refreshing: Promise<StoredToken>;
 
+  async function refresh() {
+    const { tokenStore } = settings;
+    const stored = await tokenStore?.get(key).catch((): undefined => undefined);
+    if (isFresh(stored)) return stored;
+    const token = await create();
+    await tokenStore?.put(key, token).catch(() => {});
     return token;
   }
+
+  return async function getCachedToken() {
+    if (!isFresh(cached)) {
+      if (!refreshing) refreshing = refresh().finally(() => refreshing = undefined);
+      cached = await refreshing;
+    }
+    return cached.token;
+  }
+}
+
+function isFresh(token: StoredToken) {
+  return !!token && now() < token.expires - 60;
 }
 
 // Create firebase service account JWT to use in API calls
@@ -1,3 +1,4 @@
+import type { DocumentCacheSettings } from './firestore/types';
 export * from './auth/types';
 export * from './firestore/types';
 
@@ -5,9 +6,25 @@ export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
 export type TokenGetter = (claims?: Record<string, any>) => Promise<string>;
 
+export interface StoredToken {
+  token: string;
+  expires: number; // seconds since the epoch
+}
+
+// Shares service account access tokens between isolates, e.g. a KVTokenStore or one backed by a Durable Object
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | undefined>;
+  put(key: string, token: StoredToken): Promise<void>;
+}
+
 export interface ServiceAccount {
   projectId: string;
   databaseId?: string;
+  useTimestamps?: boolean; // decode Firestore timestamps to Timestamp instead of Date
+  fetch?: typeof fetch; // used in place of the global fetch, e.g. MemoryBackend's for tests
+  emulatorHosts?: EmulatorHosts; // connect to the local Firebase emulators instead of production
+  documentCache?: DocumentCacheSettings; // cache document gets, invalidated by this client's writes
+  tokenStore?: TokenStore; // share access tokens between isolates instead of creating new ones in each
   privateKeyId: string;
   privateKey: string;
   clientEmail: string;
@@ -18,6 +35,15 @@ export interface UserAccount {
   getToken: TokenGetter;
   projectId: string;
   databaseId?: string;
+  useTimestamps?: boolean; // decode Firestore timestamps to Timestamp instead of Date
+  fetch?: typeof fetch; // used in place of the global fetch, e.g. MemoryBackend's for tests
+  emulatorHosts?: EmulatorHosts; // connect to the local Firebase emulators instead of production
+  documentCache?: DocumentCacheSettings; // cache document gets, invalidated by this client's writes
+}
+
+export interface EmulatorHosts {
+  firestore?: string; // e.g. 'localhost:8080'
+  auth?: string; // e.g. 'localhost:9099'
 }
 
 export type Settings = ServiceAccount | UserAccount;